@@ -0,0 +1,191 @@
+import { AnyEventObject } from "xstate";
+import { Path } from "@/lib/path";
+import { Segment } from "@/lib/segment";
+import { StateTarget, matchesTarget } from "@/lib/targets";
+import { isGlobPattern, matchesGlob } from "@/lib/util";
+
+/**
+ * A rule that paths must follow. Constraints are checked as paths are generated:
+ * a path that can no longer satisfy a constraint isn't extended any further, and
+ * a path is only generated if it satisfies every constraint.
+ */
+export type PathConstraint = {
+  /**
+   * Returns false if neither the path nor any path that extends it can satisfy
+   * the constraint. It is called for each path as it is extended, so it only
+   * needs to check the path's last segment against what came before it.
+   *
+   * @param path
+   * @returns
+   */
+  canContinue: (path: Path) => boolean;
+
+  /**
+   * Returns true if the path satisfies the constraint.
+   *
+   * @param path
+   * @returns
+   */
+  isSatisfied: (path: Path) => boolean;
+}
+
+/**
+ * The events to look for: an event type, a glob pattern of event types
+ * (`form.*`), or a predicate on the event.
+ */
+export type EventMatcher = string | ((event: AnyEventObject) => boolean);
+
+
+/**
+ * The path must reach a state that matches `target` at some point.
+ *
+ * @param target
+ * @returns
+ *
+ * @example
+ * ```ts
+ * const paths = await Path.makePaths(machine, {
+ *   constraints: [eventually('checkout.paid')],
+ * });
+ * ```
+ */
+export function eventually(target: StateTarget): PathConstraint {
+  return {
+    canContinue: () => true,
+    isSatisfied: path => path.segments.some(segment => matchesTarget(segment.state, target)),
+  };
+}
+
+/**
+ * The path must not reach a state that matches `later` unless it has already
+ * reached a state that matches `earlier`. Paths that never reach `later` satisfy
+ * the constraint.
+ *
+ * @param earlier
+ * @param later
+ * @returns
+ *
+ * @example
+ * ```ts
+ * // Never pay without reviewing the order first
+ * before('checkout.review', 'checkout.paid');
+ * ```
+ */
+export function before(earlier: StateTarget, later: StateTarget): PathConstraint {
+  return {
+    canContinue: path => {
+      const { lastSegment } = path;
+
+      return !lastSegment ||
+        !matchesTarget(lastSegment.state, later) ||
+        path.segments.some(segment => matchesTarget(segment.state, earlier));
+    },
+    isSatisfied: path => {
+      const laterIndex = path.segments.findIndex(segment => matchesTarget(segment.state, later));
+      const earlierIndex = path.segments.findIndex(segment => matchesTarget(segment.state, earlier));
+
+      return laterIndex === -1 || (earlierIndex !== -1 && earlierIndex <= laterIndex);
+    },
+  };
+}
+
+/**
+ * The path must not take an event that matches `target`.
+ *
+ * @param target
+ * @returns
+ *
+ * @example
+ * ```ts
+ * never('CANCEL');
+ * never('error.platform.*');
+ * ```
+ */
+export function never(target: EventMatcher): PathConstraint {
+  return {
+    canContinue: path => !path.lastSegment || !matchesEvent(path.lastSegment, target),
+    isSatisfied: path => !path.segments.some(segment => matchesEvent(segment, target)),
+  };
+}
+
+/**
+ * The path must not take an event that matches `target` more than `times` times.
+ *
+ * @param target
+ * @param times
+ * @returns
+ *
+ * @example
+ * ```ts
+ * atMostTimes('RETRY', 2);
+ * ```
+ */
+export function atMostTimes(target: EventMatcher, times: number): PathConstraint {
+  const isSatisfied = (path: Path) => path.segments.filter(segment => matchesEvent(segment, target)).length <= times;
+
+  return {
+    canContinue: isSatisfied,
+    isSatisfied,
+  };
+}
+
+/**
+ * The path must end in a state that matches `target`.
+ *
+ * @param target
+ * @returns
+ *
+ * @example
+ * ```ts
+ * endsIn('tag:error');
+ * ```
+ */
+export function endsIn(target: StateTarget): PathConstraint {
+  return {
+    canContinue: () => true,
+    isSatisfied: path => !!path.lastSegment && matchesTarget(path.lastSegment.state, target),
+  };
+}
+
+
+/**
+ * Returns true if the path, or some path that extends it, can still satisfy every
+ * constraint.
+ *
+ * @param constraints
+ * @param path
+ * @returns
+ */
+export function canSatisfyConstraints(constraints: PathConstraint[], path: Path) {
+  return constraints.every(constraint => constraint.canContinue(path));
+}
+
+/**
+ * Returns true if the path satisfies every constraint.
+ *
+ * @param constraints
+ * @param path
+ * @returns
+ */
+export function satisfiesConstraints(constraints: PathConstraint[], path: Path) {
+  return constraints.every(constraint => constraint.isSatisfied(path));
+}
+
+
+/**
+ * Returns true if the segment's event matches the target.
+ *
+ * @param segment
+ * @param target
+ * @returns
+ */
+function matchesEvent(segment: Segment, target: EventMatcher) {
+  const { event } = segment;
+
+  if (typeof target === 'function')
+    return target(event);
+
+  return isGlobPattern(target)
+    ? matchesGlob(target, event.type)
+    : event.type === target;
+}
@@ -0,0 +1,294 @@
+import { AnyStateMachine } from "xstate";
+import { Path } from "@/lib/path";
+import { Segment } from "@/lib/segment";
+import { StateGraph } from "@/lib/state-graph";
+
+/**
+ * The kinds of things a set of paths can cover:
+ *
+ * - `states`: every state node in the machine, by id
+ * - `transitions`: every transition of every state node, except eventless and wildcard ones
+ * - `events`: every event type the machine accepts
+ * - `finalStates`: every final state node in the machine, by id
+ */
+export type CoverageCriterion = 'states' | 'transitions' | 'events' | 'finalStates';
+
+/**
+ * Every `CoverageCriterion`, in the order they appear in a `CoverageReport`.
+ */
+export const coverageCriteria: CoverageCriterion[] = ['states', 'transitions', 'events', 'finalStates'];
+
+/**
+ * How well a set of paths covers the machine under a single criterion.
+ */
+export type CriterionCoverage = {
+  covered: string[];
+  uncovered: string[];
+  total: number;
+
+  /**
+   * The fraction of items covered, from `0` to `1`. A machine with nothing to
+   * cover is fully covered.
+   */
+  ratio: number;
+}
+
+/**
+ * How well a set of paths covers the machine, under every `CoverageCriterion`.
+ */
+export type CoverageReport = Record<CoverageCriterion, CriterionCoverage>;
+
+/**
+ * A transition definition, as found on `StateNode.transitions` and `State.transitions`.
+ */
+export type AnyTransitionDefinition = AnyStateMachine['transitions'][number];
+
+/**
+ * Returns a description of the given transition, in the form `source: EVENT -> target`.
+ * Transitions without a target are described as `source: EVENT`.
+ *
+ * @param transition
+ * @returns
+ *
+ * @example
+ * ```ts
+ * describeTransition(transition);   // "machine.form: SUBMIT -> machine.submitted"
+ * ```
+ */
+export function describeTransition(transition: AnyTransitionDefinition) {
+  const source = `${transition.source.id}: ${transition.eventType}`;
+  const targets = transition.target?.map(node => node.id).join(', ');
+
+  return targets ? `${source} -> ${targets}` : source;
+}
+
+/**
+ * Returns everything in the machine that can be covered under the given criterion.
+ *
+ * @param machine
+ * @param criterion
+ * @returns
+ *
+ * @example
+ * ```ts
+ * getCoverageItems(machine, 'states');   // ["machine", "machine.form", "machine.submitted"]
+ * ```
+ */
+export function getCoverageItems(machine: AnyStateMachine, criterion: CoverageCriterion): string[] {
+  switch (criterion) {
+    case 'states':
+      return machine.stateIds;
+
+    case 'transitions':
+      return Array.from(new Set(
+        getTransitions(machine)
+          .filter(transition => transition.eventType !== '' && transition.eventType !== '*')
+          .map(describeTransition)
+      ));
+
+    case 'events':
+      return Array.from(new Set(
+        getTransitions(machine)
+          .map(transition => transition.eventType)
+          .filter(eventType => eventType !== '' && eventType !== '*')
+      ));
+
+    case 'finalStates':
+      return machine.stateIds.filter(id => machine.getStateNodeById(id).type === 'final');
+  }
+}
+
+/**
+ * Returns the transitions of every state node in the machine.
+ *
+ * @param machine
+ * @returns
+ */
+export function getTransitions(machine: AnyStateMachine): AnyTransitionDefinition[] {
+  return machine.stateIds.flatMap(id => machine.getStateNodeById(id).transitions);
+}
+
+/**
+ * Returns the transitions taken by the segment's event from the previous state.
+ * Without a previous state, these are the transitions of the segment's own
+ * microstep, which are the eventless ones if the target state has any.
+ *
+ * @param segment
+ * @param previousSegment
+ * @returns
+ */
+export function getTransitionsTaken(segment: Segment, previousSegment?: Segment): AnyTransitionDefinition[] {
+  if (!previousSegment)
+    return segment.state.transitions;
+
+  return segment.machine.getTransitionData(previousSegment.state, segment.event)?.transitions ?? [];
+}
+
+/**
+ * Returns the ids of the state nodes the segment passes through: those its event
+ * enters, including ones it leaves straight away on an eventless transition, and
+ * those it ends in. States between two eventless transitions aren't included, as
+ * xstate only keeps the state after the last one.
+ *
+ * @param segment
+ * @param previousSegment
+ * @returns
+ */
+export function getStatesEntered(segment: Segment, previousSegment?: Segment): string[] {
+  const entered = previousSegment
+    ? segment.machine.getTransitionData(previousSegment.state, segment.event)?.configuration ?? []
+    : [];
+
+  return Array.from(new Set([...entered, ...segment.state.configuration].map(node => node.id)));
+}
+
+/**
+ * Returns the items covered by a single segment under the given criterion.
+ *
+ * @param segment
+ * @param criterion
+ * @param previousSegment The segment before it in the path, if there is one. Its
+ * state is needed to tell which states and transitions the segment's event took.
+ * @returns
+ */
+export function getSegmentCoverage(segment: Segment, criterion: CoverageCriterion, previousSegment?: Segment): string[] {
+  switch (criterion) {
+    case 'states':
+      return getStatesEntered(segment, previousSegment);
+
+    case 'transitions':
+      return getTransitionsTaken(segment, previousSegment).map(describeTransition);
+
+    case 'events':
+      return [segment.event.type];
+
+    case 'finalStates':
+      return segment.state.configuration
+        .filter(node => node.type === 'final')
+        .map(node => node.id);
+  }
+}
+
+/**
+ * Returns the items covered by a sequence of segments, such as a path's, under
+ * the given criterion.
+ *
+ * @param segments
+ * @param criterion
+ * @returns
+ */
+export function getSegmentsCoverage(segments: Segment[], criterion: CoverageCriterion): Set<string> {
+  return new Set(segments.flatMap((segment, i) => getSegmentCoverage(segment, criterion, segments[i - 1])));
+}
+
+
+/**
+ * Returns the items that can be covered at all under the given criterion: those
+ * covered by some node or edge of the graph. Anything else the machine declares
+ * is unreachable with the graph's event source.
+ *
+ * @param graph
+ * @param criterion
+ * @returns
+ *
+ * @example
+ * ```ts
+ * const graph = await StateGraph.forMachine(machine);
+ * const reachable = getGraphCoverage(graph, 'states');
+ *
+ * getCoverageItems(machine, 'states').filter(id => !reachable.has(id));   // ["machine.unused"]
+ * ```
+ */
+export function getGraphCoverage(graph: StateGraph, criterion: CoverageCriterion): Set<string> {
+  return new Set([
+    ...Array.from(graph.nodes.values()).flatMap(node => getSegmentCoverage(node.segment, criterion)),
+    ...Array.from(graph.edges.values()).flatMap(edge => (
+      getSegmentCoverage(edge.segment, criterion, graph.nodes.get(edge.source)!.segment)
+    )),
+  ]);
+}
+
+
+/**
+ * Analyze how well the given paths cover the machine: which state nodes,
+ * transitions, event types and final states they reach, and which they never touch.
+ *
+ * @param machine
+ * @param paths
+ * @returns
+ *
+ * @example
+ * ```ts
+ * const paths = await Path.makePaths(machine, { maxLength: 5 });
+ * const report = getCoverageReport(machine, paths);
+ *
+ * report.states.uncovered;   // ["machine.form.error"]
+ * ```
+ */
+export function getCoverageReport(machine: AnyStateMachine, paths: Path[]): CoverageReport {
+  const report = {} as CoverageReport;
+
+  for (const criterion of coverageCriteria) {
+    const items = getCoverageItems(machine, criterion);
+    const coveredItems = new Set(paths.flatMap(path => Array.from(getSegmentsCoverage(path.segments, criterion))));
+    const covered = items.filter(item => coveredItems.has(item));
+    const uncovered = items.filter(item => !coveredItems.has(item));
+
+    report[criterion] = {
+      covered,
+      uncovered,
+      total: items.length,
+      ratio: items.length ? covered.length / items.length : 1,
+    };
+  }
+
+  return report;
+}
+
+/**
+ * Format a `CoverageReport` as a readable text table, followed by a list of
+ * everything that wasn't covered.
+ *
+ * @param report
+ * @returns
+ *
+ * @example
+ * ```ts
+ * console.log(formatCoverageReport(report));
+ *
+ * // Criterion    Covered  Total  Coverage
+ * // states             5      6     83.3%
+ * // transitions        4      4    100.0%
+ * // events             3      3    100.0%
+ * // finalStates        1      1    100.0%
+ * //
+ * // Uncovered states:
+ * //   machine.form.error
+ * ```
+ */
+export function formatCoverageReport(report: CoverageReport): string {
+  const rows = [
+    ['Criterion', 'Covered', 'Total', 'Coverage'],
+    ...coverageCriteria.map(criterion => [
+      criterion,
+      String(report[criterion].covered.length),
+      String(report[criterion].total),
+      `${(report[criterion].ratio * 100).toFixed(1)}%`,
+    ]),
+  ];
+
+  const widths = rows[0].map((_, column) => Math.max(...rows.map(row => row[column].length)));
+  const lines = rows.map(row => row
+    .map((cell, column) => column === 0 ? cell.padEnd(widths[column]) : cell.padStart(widths[column]))
+    .join('  ')
+  );
+
+  for (const criterion of coverageCriteria) {
+    const { uncovered } = report[criterion];
+
+    if (uncovered.length)
+      lines.push('', `Uncovered ${criterion}:`, ...uncovered.map(item => `  ${item}`));
+  }
+
+  return lines.join('\n');
+}
@@ -0,0 +1,215 @@
+import { AnyStateMachine } from "xstate";
+import { MakePathOptions, Path } from "@/lib/path";
+import { PathRunner } from "@/lib/path-runner";
+
+/**
+ * A function that registers a test, such as vitest's or Jest's `it`.
+ */
+export type RegisterTestFn = (name: string, fn: () => Promise<void>) => void;
+
+/**
+ * The parts of a test framework used by `describePaths`. Both vitest and Jest
+ * provide these.
+ */
+export interface TestFramework {
+  describe: (name: string, fn: () => void | Promise<void>) => void;
+  it: RegisterTestFn & {
+    only: RegisterTestFn;
+    skip: RegisterTestFn;
+  };
+}
+
+/**
+ * Selects paths by the state they end in, by the event types they include, or
+ * with a predicate. When both `target` and `event` are given, a path must match both.
+ */
+export type PathSelector =
+  | ((path: Path) => boolean)
+  | {
+    /**
+     * Matches paths whose final state matches any of these, using `State.matches`.
+     */
+    target?: string | string[];
+
+    /**
+     * Matches paths that include an event of any of these types.
+     */
+    event?: string | string[];
+  };
+
+/**
+ * Options for `describePaths`.
+ */
+export type DescribePathsOptions = MakePathOptions & {
+  /**
+   * The name of the `describe` block. Defaults to the machine's id.
+   */
+  name?: string;
+
+  /**
+   * The test framework to register tests with, such as `{ describe, it }` from
+   * vitest, or Jest's globals.
+   */
+  framework: TestFramework;
+
+  /**
+   * The paths to register tests for, such as paths loaded with `Path.loadPaths`.
+   * If they're given, tests are registered synchronously, which test frameworks
+   * without asynchronous `describe` blocks, like Jest, need. Otherwise, paths
+   * are generated inside the `describe` block.
+   */
+  paths?: Path[];
+
+  /**
+   * Only run paths that match this selector, using `it.only`.
+   */
+  only?: PathSelector;
+
+  /**
+   * Skip paths that match this selector, using `it.skip`.
+   */
+  skip?: PathSelector;
+}
+
+/**
+ * Creates the runner for a path.
+ */
+export type RunnerFactoryFn = (path: Path) => PathRunner<[]> | Promise<PathRunner<[]>>;
+
+
+/**
+ * Register a `describe` block for the machine, with a test for each of its paths.
+ * Each test runs its path with a runner from `runnerFactory`. If the path fails,
+ * the error includes the index and description of the segment that failed.
+ *
+ * The `describe` block is registered synchronously. If `options.paths` isn't
+ * given, the paths are generated inside it, which needs a framework that waits
+ * for asynchronous `describe` blocks, like vitest. With Jest, load or generate
+ * the paths beforehand and pass them as `options.paths`.
+ *
+ * Tests are named after the state the path ends in and the events it takes, so
+ * the names stay the same as long as the paths do.
+ *
+ * @param machine
+ * @param options
+ * @param runnerFactory
+ *
+ * @example
+ * ```ts
+ * import { describe, it } from 'vitest';
+ *
+ * describePaths(machine, {
+ *   framework: { describe, it },
+ *   skip: { target: 'form.error' },
+ * }, () => new TestRunner(eventCallbacks, stateCallbacks));
+ *
+ * // ✓ test-machine > submitted via INPUT {"value":"foo"} -> SUBMIT
+ * // ↓ test-machine > form.error via INPUT {"value":""} -> SUBMIT [skipped]
+ * ```
+ *
+ * @example
+ * ```ts
+ * // Jest
+ * const paths = Path.loadPaths(machine, fs.readFileSync('paths.json', 'utf-8'));
+ *
+ * describePaths(machine, { framework: { describe, it }, paths }, runnerFactory);
+ * ```
+ */
+export function describePaths(machine: AnyStateMachine, options: DescribePathsOptions, runnerFactory: RunnerFactoryFn) {
+  const {
+    name = machine.id,
+    framework,
+    paths,
+  } = options;
+
+  framework.describe(name, paths
+    ? () => registerTests(paths, options, runnerFactory)
+    : async () => registerTests(await Path.makePaths(machine, options), options, runnerFactory)
+  );
+}
+
+/**
+ * Returns a readable name for the path, made from the state it ends in and
+ * the events it takes.
+ *
+ * @param path
+ * @returns
+ *
+ * @example
+ * ```ts
+ * getTestName(path);   // "submitted via INPUT {"value":"foo"} -> SUBMIT"
+ * ```
+ */
+export function getTestName(path: Path) {
+  const events = path.segments.slice(1).map(segment => segment.eventDescription);
+  const target = path.lastSegment?.stateDescription;
+
+  return events.length
+    ? `${target} via ${events.join(' -> ')}`
+    : `${target} (initial state)`;
+}
+
+/**
+ * Returns true if the path matches the selector.
+ *
+ * @param path
+ * @param selector
+ * @returns
+ */
+export function selectPath(path: Path, selector: PathSelector) {
+  if (typeof selector === 'function')
+    return selector(path);
+
+  const targets = ([] as string[]).concat(selector.target ?? []);
+  const events = ([] as string[]).concat(selector.event ?? []);
+  const state = path.lastSegment?.state;
+
+  const matchesTarget = !targets.length || targets.some(target => state?.matches(target));
+  const matchesEvent = !events.length || path.segments.some(segment => events.includes(segment.event.type));
+
+  return matchesTarget && matchesEvent;
+}
+
+/**
+ * Register a test for each path, using `it.only` and `it.skip` for the paths the
+ * options select.
+ *
+ * @param paths
+ * @param options
+ * @param runnerFactory
+ */
+function registerTests(paths: Path[], options: DescribePathsOptions, runnerFactory: RunnerFactoryFn) {
+  const { framework, only, skip } = options;
+  const names = getTestNames(paths);
+
+  paths.forEach((path, index) => {
+    const register = skip && selectPath(path, skip)
+      ? framework.it.skip
+      : only && selectPath(path, only)
+        ? framework.it.only
+        : framework.it;
+
+    register(names[index], async () => {
+      const runner = await runnerFactory(path);
+      await runner.run(path);
+    });
+  });
+}
+
+/**
+ * Returns a unique test name for each path, numbering any duplicates.
+ *
+ * @param paths
+ * @returns
+ */
+function getTestNames(paths: Path[]) {
+  const counts = new Map<string, number>();
+
+  return paths.map(path => {
+    const name = getTestName(path);
+    const count = (counts.get(name) ?? 0) + 1;
+    counts.set(name, count);
+
+    return count > 1 ? `${name} (${count})` : name;
+  });
+}
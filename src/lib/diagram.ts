@@ -0,0 +1,248 @@
+import { Path } from "@/lib/path";
+
+/**
+ * The kind of Mermaid diagram to render.
+ */
+export type MermaidDiagramType = 'stateDiagram' | 'flowchart';
+
+/**
+ * Options for `pathsToMermaid`.
+ */
+export type MermaidOptions = {
+  /**
+   * The kind of diagram to render. Defaults to `stateDiagram`.
+   */
+  type?: MermaidDiagramType;
+}
+
+/**
+ * Options for `pathsToDot`.
+ */
+export type DotOptions = {
+  /**
+   * The name of the graph. Defaults to `paths`.
+   */
+  name?: string;
+}
+
+/**
+ * A state in a `PathGraph`.
+ */
+export type PathGraphNode = {
+  id: string;
+  label: string;
+  isInitial: boolean;
+  isFinal: boolean;
+}
+
+/**
+ * A transition in a `PathGraph`. `count` is the number of times the transition
+ * is taken, across all paths.
+ */
+export type PathGraphEdge = {
+  from: string;
+  to: string;
+  label: string;
+  count: number;
+}
+
+/**
+ * The states and transitions travelled by a set of paths.
+ */
+export type PathGraph = {
+  nodes: PathGraphNode[];
+  edges: PathGraphEdge[];
+}
+
+
+/**
+ * Build a graph of the states and transitions travelled by the given paths. States
+ * are identified by `Segment.stateDescription`, and transitions are labelled with
+ * `Segment.eventDescription`. A transition that is taken more than once is only
+ * added once, with its `count` incremented.
+ *
+ * @param paths
+ * @returns
+ *
+ * @example
+ * ```ts
+ * const graph = buildPathGraph(paths);
+ *
+ * graph.edges[0];   // { from: 's0', to: 's1', label: 'SUBMIT', count: 3 }
+ * ```
+ */
+export function buildPathGraph(paths: Path | Path[]): PathGraph {
+  const nodes = new Map<string, PathGraphNode>();
+  const edges = new Map<string, PathGraphEdge>();
+
+  const getNode = (label: string) => {
+    if (!nodes.has(label))
+      nodes.set(label, { id: `s${nodes.size}`, label, isInitial: false, isFinal: false });
+
+    return nodes.get(label)!;
+  }
+
+  for (const path of ([] as Path[]).concat(paths)) {
+    let previous: PathGraphNode | undefined;
+
+    for (const segment of path.segments) {
+      const node = getNode(segment.stateDescription);
+      node.isFinal ||= segment.isFinal();
+
+      if (previous) {
+        const key = `${previous.id} ${node.id} ${segment.eventDescription}`;
+        const edge = edges.get(key) ?? { from: previous.id, to: node.id, label: segment.eventDescription, count: 0 };
+
+        edge.count++;
+        edges.set(key, edge);
+      } else {
+        node.isInitial = true;
+      }
+
+      previous = node;
+    }
+  }
+
+  return {
+    nodes: Array.from(nodes.values()),
+    edges: Array.from(edges.values()),
+  };
+}
+
+
+/**
+ * Render the given paths as a Mermaid state diagram or flowchart.
+ *
+ * @param paths
+ * @param options
+ * @returns
+ *
+ * @example
+ * ```ts
+ * console.log(pathsToMermaid(paths));
+ *
+ * // stateDiagram-v2
+ * //   state "form" as s0
+ * //   state "submitted" as s1
+ * //   [*] --> s0
+ * //   s0 --> s1 : SUBMIT (×3)
+ * //   s1 --> [*]
+ * ```
+ */
+export function pathsToMermaid(paths: Path | Path[], options: MermaidOptions = {}): string {
+  const { type = 'stateDiagram' } = options;
+  const { nodes, edges } = buildPathGraph(paths);
+  const lines: string[] = [];
+
+  if (type === 'flowchart') {
+    lines.push('flowchart LR');
+
+    for (const node of nodes) {
+      const label = escapeMermaid(node.label);
+      lines.push(node.isFinal ? `  ${node.id}((("${label}")))` : `  ${node.id}["${label}"]`);
+    }
+
+    if (nodes.some(node => node.isInitial))
+      lines.push('  initial(( ))');
+
+    for (const node of nodes.filter(node => node.isInitial))
+      lines.push(`  initial --> ${node.id}`);
+
+    for (const edge of edges)
+      lines.push(`  ${edge.from} -->|"${escapeMermaid(edgeLabel(edge))}"| ${edge.to}`);
+  } else {
+    lines.push('stateDiagram-v2');
+
+    for (const node of nodes)
+      lines.push(`  state "${escapeMermaid(node.label)}" as ${node.id}`);
+
+    for (const node of nodes.filter(node => node.isInitial))
+      lines.push(`  [*] --> ${node.id}`);
+
+    for (const edge of edges)
+      lines.push(`  ${edge.from} --> ${edge.to} : ${escapeMermaid(edgeLabel(edge)).replace(/:/g, '#58;')}`);
+
+    for (const node of nodes.filter(node => node.isFinal))
+      lines.push(`  ${node.id} --> [*]`);
+  }
+
+  return lines.join('\n');
+}
+
+
+/**
+ * Render the given paths as a Graphviz DOT graph.
+ *
+ * @param paths
+ * @param options
+ * @returns
+ *
+ * @example
+ * ```ts
+ * console.log(pathsToDot(paths));
+ *
+ * // digraph "paths" {
+ * //   rankdir=LR;
+ * //   initial [shape=point];
+ * //   s0 [label="form"];
+ * //   s1 [label="submitted", shape=doublecircle];
+ * //   initial -> s0;
+ * //   s0 -> s1 [label="SUBMIT (×3)"];
+ * // }
+ * ```
+ */
+export function pathsToDot(paths: Path | Path[], options: DotOptions = {}): string {
+  const { name = 'paths' } = options;
+  const { nodes, edges } = buildPathGraph(paths);
+  const lines: string[] = [];
+
+  lines.push(`digraph "${escapeDot(name)}" {`);
+  lines.push('  rankdir=LR;');
+
+  if (nodes.some(node => node.isInitial))
+    lines.push('  initial [shape=point];');
+
+  for (const node of nodes)
+    lines.push(`  ${node.id} [label="${escapeDot(node.label)}"${node.isFinal ? ', shape=doublecircle' : ''}];`);
+
+  for (const node of nodes.filter(node => node.isInitial))
+    lines.push(`  initial -> ${node.id};`);
+
+  for (const edge of edges)
+    lines.push(`  ${edge.from} -> ${edge.to} [label="${escapeDot(edgeLabel(edge))}"];`);
+
+  lines.push('}');
+
+  return lines.join('\n');
+}
+
+
+/**
+ * Returns the label for an edge, with its count if it was taken more than once.
+ *
+ * @param edge
+ * @returns
+ */
+function edgeLabel(edge: PathGraphEdge) {
+  return edge.count > 1 ? `${edge.label} (×${edge.count})` : edge.label;
+}
+
+/**
+ * Escapes text for use inside a quoted Mermaid label.
+ *
+ * @param text
+ * @returns
+ */
+function escapeMermaid(text: string) {
+  return text.replace(/"/g, '#quot;');
+}
+
+/**
+ * Escapes text for use inside a quoted DOT string.
+ *
+ * @param text
+ * @returns
+ */
+function escapeDot(text: string) {
+  return text.replace(/\\/g, '\\\\').replace(/"/g, '\\"');
+}
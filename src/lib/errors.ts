@@ -0,0 +1,131 @@
+import { AnyState } from "xstate";
+import { Path } from "@/lib/path";
+import { Segment } from "@/lib/segment";
+
+/**
+ * Thrown when a saved path can't be loaded, because it no longer matches the
+ * machine it is being loaded for.
+ * 
+ * @example
+ * ```ts
+ * try {
+ *   Path.fromJSON(machine, savedPath);
+ * } catch (error) {
+ *   if (error instanceof PathLoadError)
+ *     console.log(error.segmentIndex);   // The index of the first segment that didn't match
+ * }
+ * ```
+ */
+export class PathLoadError extends Error {
+  public readonly name = 'PathLoadError';
+
+  /**
+   * Create a new `PathLoadError`.
+   * 
+   * @param message 
+   * @param segmentIndex The index of the segment that couldn't be loaded, if any.
+   */
+  public constructor(
+    message: string,
+    public readonly segmentIndex?: number,
+  ) {
+    super(message);
+  }
+}
+
+
+/**
+ * Thrown by `PathRunner.run` when a step of a path fails. Carries the path, where
+ * in the path the failure happened, and the original error.
+ * 
+ * @example
+ * ```ts
+ * try {
+ *   await runner.run(path);
+ * } catch (error) {
+ *   if (error instanceof PathRunError) {
+ *     console.log(error.segmentIndex);         // 2
+ *     console.log(error.segment.description);  // "SUBMIT -> submitted"
+ *     console.log(error.originalError);        // The error thrown by the callback
+ *   }
+ * }
+ * ```
+ */
+export class PathRunError extends Error {
+  public readonly name = 'PathRunError';
+
+  /**
+   * Create a new `PathRunError`.
+   * 
+   * @param path The path that was being run.
+   * @param segmentIndex The index of the segment that failed.
+   * @param state The current state when the failure happened.
+   * @param originalError The error that caused the failure.
+   * @param attempts The number of times the step was tried.
+   */
+  public constructor(
+    public readonly path: Path,
+    public readonly segmentIndex: number,
+    public readonly state: AnyState,
+    public readonly originalError: unknown,
+    public readonly attempts: number = 1,
+  ) {
+    const segment = path.segments[segmentIndex];
+    const reason = originalError instanceof Error ? originalError.message : String(originalError);
+
+    super(`Path failed at segment ${segmentIndex} (${segment?.description}): ${reason}`);
+  }
+
+  /**
+   * The segment that failed.
+   */
+  public get segment(): Segment {
+    return this.path.segments[this.segmentIndex];
+  }
+}
+
+
+
+/**
+ * Thrown when a step of a path, or a whole path, takes longer than the runner's
+ * `stepTimeout` or `pathTimeout`. It is wrapped in a `PathRunError`.
+ */
+export class PathTimeoutError extends Error {
+  public readonly name = 'PathTimeoutError';
+
+  /**
+   * Create a new `PathTimeoutError`.
+   * 
+   * @param scope Whether the step or the whole path timed out.
+   * @param timeout The timeout that was exceeded, in milliseconds.
+   */
+  public constructor(
+    public readonly scope: 'step' | 'path',
+    public readonly timeout: number,
+  ) {
+    super(`The ${scope} timed out after ${timeout}ms`);
+  }
+}
+
+
+
+/**
+ * Thrown when a live actor doesn't reach the state recorded in a segment. It is
+ * wrapped in a `PathRunError`.
+ */
+export class PathDivergenceError extends Error {
+  public readonly name = 'PathDivergenceError';
+
+  /**
+   * Create a new `PathDivergenceError`.
+   * 
+   * @param segment The segment that was being run.
+   * @param actualState The state the actor reached instead.
+   */
+  public constructor(
+    public readonly segment: Segment,
+    public readonly actualState: AnyState,
+  ) {
+    super(`Expected ${segment.description}, but the actor reached ${JSON.stringify(actualState.value)}`);
+  }
+}
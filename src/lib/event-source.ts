@@ -1,23 +1,127 @@
 import { AnyEventObject, AnyState } from "xstate";
-import { generatorFromArray } from "@/lib/util";
+import { arrayFromAsyncGenerator, coveringArray } from "@/lib/util";
+import { getActiveInvocationIds, getInvocationEventTypes } from "@/lib/events";
+import { Path } from "@/lib/path";
 
 /**
- * A function that returns event objects.
+ * A function that returns event objects. It receives the state the events will be
+ * sent to, and the path taken to reach that state, if there is one.
  */
-export type EventCreatorFn = () => AnyEventObject[];
+export type EventCreatorFn = (fromState: AnyState, path?: Path) => AnyEventObject[];
 
 /**
- * A function that returns a generator that yields event objects.
+ * A function that returns a generator that yields event objects. It receives the
+ * state the events will be sent to, and the path taken to reach that state, if
+ * there is one.
  */
-export type EventGeneratorFn = () => Generator<AnyEventObject>;
+export type EventGeneratorFn = (fromState: AnyState, path?: Path) => Generator<AnyEventObject>;
+
+/**
+ * An async function that returns event objects. Takes the same arguments as
+ * `EventCreatorFn`.
+ */
+export type AsyncEventCreatorFn = (fromState: AnyState, path?: Path) => Promise<AnyEventObject[]>;
+
+/**
+ * A function that returns an async generator that yields event objects. Takes the
+ * same arguments as `EventGeneratorFn`.
+ */
+export type AsyncEventGeneratorFn = (fromState: AnyState, path?: Path) => AsyncGenerator<AnyEventObject>;
 
 /**
  * An source of event objects.
  */
-export type EventSourceArg = AnyEventObject[] | EventCreatorFn | EventGeneratorFn;
+export type EventSourceArg =
+  | AnyEventObject[]
+  | EventCreatorFn
+  | EventGeneratorFn
+  | AsyncEventCreatorFn
+  | AsyncEventGeneratorFn;
+
+/**
+ * A function that returns the weight of an event, given the state it will be sent to.
+ */
+export type EventWeightFn = (event: AnyEventObject, fromState: AnyState) => number;
+
+/**
+ * The relative weight of an event. Events with higher weights are more likely to
+ * be picked. Defaults to `1`.
+ */
+export type EventWeight = number | EventWeightFn;
+
+/**
+ * An event source with weights attached.
+ */
+export interface WeightedEventSourceArg {
+  /**
+   * The events of this type. Defaults to `[{ type }]`.
+   */
+  events?: EventSourceArg;
+
+  /**
+   * The weight of this event type, relative to the other event types the
+   * state accepts.
+   */
+  weight?: EventWeight;
+
+  /**
+   * The weight of each event, relative to the other events of this type.
+   */
+  eventWeight?: EventWeight;
+}
 
 export interface EventSourceMap {
-  [type: string]: EventSourceArg
+  [type: string]: EventSourceArg | WeightedEventSourceArg
+}
+
+/**
+ * The `data` of the events sent when an invoked service succeeds or fails. Either
+ * a list of values, or a function that returns them.
+ */
+export type InvocationDataArg =
+  | unknown[]
+  | ((fromState: AnyState, path?: Path) => unknown[] | Promise<unknown[]>);
+
+/**
+ * The outcomes of an invoked service to generate events for.
+ */
+export interface InvocationDataOptions {
+  /**
+   * The data of each `done.invoke.<id>` event. Defaults to `[undefined]`.
+   */
+  done?: InvocationDataArg;
+
+  /**
+   * The data of each `error.platform.<id>` event. Defaults to `[undefined]`.
+   */
+  error?: InvocationDataArg;
+}
+
+/**
+ * Invoked service outcomes, keyed by invoke id.
+ */
+export interface InvocationDataMap {
+  [id: string]: InvocationDataOptions
+}
+
+/**
+ * Options for `combinatorialEvents`.
+ */
+export type CombinatorialEventOptions = {
+  /**
+   * How many fields' values must appear together in some event: `2` covers every
+   * pair of values (pairwise), `3` every triple, and so on. `full` makes an event
+   * for every combination. Defaults to `2`.
+   */
+  strength?: number | 'full';
+}
+
+/**
+ * An event, and the probability of it being picked.
+ */
+export type WeightedEvent = {
+  event: AnyEventObject;
+  probability: number;
 }
 
 /**
@@ -25,7 +129,8 @@ export interface EventSourceMap {
  * `Segment` to generate possible events that will cause a state to transition.
  */
 export class EventSource {
-  protected sources: Map<string, EventGeneratorFn>;
+  protected sources: Map<string, AsyncEventGeneratorFn>;
+  protected weights: Map<string, WeightedEventSourceArg>;
 
   /**
    * Create an `EventSource` from the given options.
@@ -47,24 +152,105 @@ export class EventSource {
    *  OTHER: function* () {
    *    yield { type: "OTHER", payload: { value: "baz" } };
    *    yield { type: "OTHER", payload: { value: "qux" } };
+   *  },
+   * 
+   *  RARE: {
+   *    events: [{ type: "RARE" }],
+   *    weight: 0.1,
+   *  },
+   * 
+   *  SELECT_ITEM: (fromState) => fromState.context.items.map(item => ({
+   *    type: "SELECT_ITEM",
+   *    payload: { id: item.id }
+   *  })),
+   * 
+   *  LOAD: async () => {
+   *    const fixtures = await readFixtures("load-events.json");
+   *    return fixtures.map(payload => ({ type: "LOAD", payload }));
+   *  }
+   * }, {
+   *  fetchUser: {
+   *    done: [{ id: 1, name: "Alice" }],
+   *    error: [new Error("Not found")],
    *  }
    * });
+   * ```
+   * 
+   * @param invocations The `data` of the success and failure events of invoked
+   * services, keyed by invoke id. Entries in `options` for the same event types
+   * take precedence.
    */
-  public constructor(public readonly options: EventSourceMap = {}) {
+  public constructor(
+    public readonly options: EventSourceMap = {},
+    public readonly invocations: InvocationDataMap = {},
+  ) {
     this.sources = new Map();
+    this.weights = new Map();
+
+    for (const [id, outcomes] of Object.entries(invocations)) {
+      const types = getInvocationEventTypes(id);
+
+      if (outcomes.done)
+        this.sources.set(types.done, this.getInvocationGenerator(types.done, outcomes.done));
+      if (outcomes.error)
+        this.sources.set(types.error, this.getInvocationGenerator(types.error, outcomes.error));
+    }
 
-    for (const [type, opts] of Object.entries(options))
-      this.sources.set(type, this.getGenerator(opts));
+    for (const [type, opts] of Object.entries(options)) {
+      if (this.isWeighted(opts)) {
+        this.weights.set(type, opts);
+        if (opts.events)
+          this.sources.set(type, this.getGenerator(opts.events));
+      } else {
+        this.sources.set(type, this.getGenerator(opts));
+      }
+    }
+  }
+
+  /**
+   * Whether any event type has weights attached. Without weights, every event type
+   * is equally likely, and so is every event within a type.
+   */
+  public get hasWeights() {
+    return this.weights.size > 0;
   }
 
   /**
-   * Yields all events that can be sent to `fromState`.
+   * Returns the types of the events that can be sent to `fromState`: the events
+   * it accepts, followed by the success and failure events of the services its
+   * active state nodes invoke that the state doesn't handle, if this source has
+   * events for them.
    * 
    * @param fromState 
+   * @returns 
+   * 
+   * @example
+   * ```ts
+   * source.getNextEventTypes(loadingState);
+   * // ['done.invoke.fetchUser', 'CANCEL', 'error.platform.fetchUser']
+   * ```
    */
-  public * generateNextEvents(fromState: AnyState): Generator<AnyEventObject> {
-    for (const type of fromState.nextEvents) {
-      for (const event of this.generateEvents(type))
+  public getNextEventTypes(fromState: AnyState): string[] {
+    const invocationTypes = getActiveInvocationIds(fromState)
+      .flatMap(id => {
+        const { done, error } = getInvocationEventTypes(id);
+        return [done, error];
+      })
+      .filter(type => this.sources.has(type));
+
+    return Array.from(new Set([...fromState.nextEvents, ...invocationTypes]));
+  }
+
+  /**
+   * Yields all events that can be sent to `fromState`, for each type returned by
+   * `getNextEventTypes`.
+   * 
+   * @param fromState 
+   * @param path The path taken to reach `fromState`, if there is one.
+   */
+  public async * generateNextEvents(fromState: AnyState, path?: Path): AsyncGenerator<AnyEventObject> {
+    for (const type of this.getNextEventTypes(fromState)) {
+      for await (const event of this.generateEvents(type, fromState, path))
         yield event;
     }
   }
@@ -73,34 +259,217 @@ export class EventSource {
    * Yields events of the given type.
    * 
    * @param type 
+   * @param fromState The state the events will be sent to.
+   * @param path The path taken to reach `fromState`, if there is one.
    */
-  public * generateEvents(type: string): Generator<AnyEventObject> {
+  public async * generateEvents(type: string, fromState: AnyState, path?: Path): AsyncGenerator<AnyEventObject> {
     const source = this.sources.get(type);
 
     if (source)
-      for (const event of source())
+      for await (const event of source(fromState, path))
         yield event;
     else
       yield { type };
   }
 
+  /**
+   * Yields all events that can be sent to `fromState`, along with the probability
+   * of each one being picked. The probability of an event is the probability of
+   * its type, multiplied by its probability within that type.
+   * 
+   * Without weights, each type returned by `getNextEventTypes` has the same
+   * probability, and the events of one type are collected before they are yielded.
+   * With weights, every event has to be generated before any probability is known,
+   * so all of them are collected before the first one is yielded. Use
+   * `generateNextEvents` to stream them instead.
+   * 
+   * @param fromState 
+   * @param path The path taken to reach `fromState`, if there is one.
+   */
+  public async * generateWeightedNextEvents(fromState: AnyState, path?: Path): AsyncGenerator<WeightedEvent> {
+    if (!this.hasWeights) {
+      yield* this.generateUniformNextEvents(fromState, path);
+      return;
+    }
+
+    const events = await arrayFromAsyncGenerator(this.generateNextEvents(fromState, path));
+    const eventWeights = events.map(event => this.getEventWeight(event, fromState));
+
+    // Total event weight within each type
+    const typeTotals = new Map<string, number>();
+    events.forEach((event, i) => typeTotals.set(event.type, (typeTotals.get(event.type) ?? 0) + eventWeights[i]));
+
+    // Weight of each type that has any weighted events
+    const typeWeights = new Map<string, number>();
+    for (const [type, total] of typeTotals)
+      typeWeights.set(type, total > 0 ? this.getTypeWeight(type, fromState) : 0);
+
+    const totalTypeWeight = Array.from(typeWeights.values()).reduce((sum, weight) => sum + weight, 0);
+
+    for (let i = 0; i < events.length; i++) {
+      const event = events[i];
+      const typeProbability = totalTypeWeight > 0 ? typeWeights.get(event.type)! / totalTypeWeight : 0;
+      const eventProbability = eventWeights[i] > 0 ? eventWeights[i] / typeTotals.get(event.type)! : 0;
+
+      yield { event, probability: typeProbability * eventProbability };
+    }
+  }
+
+  /**
+   * Returns the weight of the given event type, when sent to `fromState`.
+   * 
+   * @param type 
+   * @param fromState 
+   * @returns 
+   */
+  public getTypeWeight(type: string, fromState: AnyState): number {
+    return this.resolveWeight(this.weights.get(type)?.weight, { type }, fromState);
+  }
+
+  /**
+   * Returns the weight of the given event, relative to other events of the same
+   * type, when sent to `fromState`.
+   * 
+   * @param event 
+   * @param fromState 
+   * @returns 
+   */
+  public getEventWeight(event: AnyEventObject, fromState: AnyState): number {
+    return this.resolveWeight(this.weights.get(event.type)?.eventWeight, event, fromState);
+  }
+
+  /**
+   * @internal
+   * 
+   * Resolves an `EventWeight` to a non-negative number.
+   * 
+   * @param weight 
+   * @param event 
+   * @param fromState 
+   * @returns 
+   */
+  protected resolveWeight(weight: EventWeight | undefined, event: AnyEventObject, fromState: AnyState): number {
+    const value = typeof weight === 'function'
+      ? weight(event, fromState)
+      : weight ?? 1;
+
+    return Math.max(value, 0);
+  }
+
+  /**
+   * @internal
+   * 
+   * Yields all events that can be sent to `fromState`, with every type equally
+   * likely and every event within a type equally likely. Only one type's events
+   * are collected at a time.
+   * 
+   * @param fromState 
+   * @param path 
+   */
+  protected async * generateUniformNextEvents(fromState: AnyState, path?: Path): AsyncGenerator<WeightedEvent> {
+    const typeProbability = 1 / this.getNextEventTypes(fromState).length;
+    let events: AnyEventObject[] = [];
+
+    // `generateNextEvents` yields the events of each type together
+    const flush = function* () {
+      for (const event of events)
+        yield { event, probability: typeProbability / events.length };
+      events = [];
+    };
+
+    for await (const event of this.generateNextEvents(fromState, path)) {
+      if (events.length && events[0].type !== event.type)
+        yield* flush();
+      events.push(event);
+    }
+
+    yield* flush();
+  }
+
+  /**
+   * @internal
+   * 
+   * Returns true if the given source has weights attached.
+   * 
+   * @param source 
+   * @returns 
+   */
+  protected isWeighted(source: EventSourceArg | WeightedEventSourceArg): source is WeightedEventSourceArg {
+    return !Array.isArray(source) && typeof source === 'object';
+  }
+
   /**
    * @internal
    * 
-   * Returns an `EventGeneratorFn` for the given source.
+   * Returns an `AsyncEventGeneratorFn` that yields an event of the given type for
+   * each item of invocation data.
+   * 
+   * @param type 
+   * @param data 
+   * @returns 
+   */
+  protected getInvocationGenerator(type: string, data: InvocationDataArg): AsyncEventGeneratorFn {
+    return async function* (fromState, path) {
+      const items = Array.isArray(data)
+        ? data
+        : await data(fromState, path);
+
+      for (const item of items)
+        yield { type, data: item };
+    }
+  }
+
+  /**
+   * @internal
+   * 
+   * Returns an `AsyncEventGeneratorFn` for the given source.
    * 
    * @param source 
    * @returns 
    */
-  protected getGenerator(source: EventSourceArg): EventGeneratorFn {
-    if (Array.isArray(source))
-      return () => generatorFromArray(source);
+  protected getGenerator(source: EventSourceArg): AsyncEventGeneratorFn {
+    return async function* (fromState, path) {
+      const events = Array.isArray(source)
+        ? source
+        : await source(fromState, path);
 
-    return () => {
-      const arrayOrGenerator = source();
-      return Array.isArray(arrayOrGenerator)
-        ? generatorFromArray(arrayOrGenerator)
-        : arrayOrGenerator;
+      yield* events;
     }
   }
-}
\ No newline at end of file
+}
+
+
+/**
+ * Create events of the given type from lists of values for each field. Rather than
+ * every combination of values, the events cover every pair of values (or every
+ * combination of `options.strength` values), which keeps the number of events
+ * small as the number of fields grows.
+ * 
+ * @param type 
+ * @param fields The values to try for each field of the event.
+ * @param options 
+ * @returns 
+ * 
+ * @example
+ * ```ts
+ * const source = new EventSource({
+ *  SUBMIT: combinatorialEvents("SUBMIT", {
+ *    size: ["small", "medium", "large", "huge"],
+ *    color: ["red", "green", "blue", "black"],
+ *    express: [true, false],
+ *  }),
+ * });
+ * 
+ * // 16 events instead of 32, with every pair of values in at least one of them
+ * ```
+ */
+export function combinatorialEvents(type: string, fields: Record<string, unknown[]>, options: CombinatorialEventOptions = {}): AnyEventObject[] {
+  const { strength = 2 } = options;
+  const keys = Object.keys(fields);
+  const rows = coveringArray(keys.map(key => fields[key]), strength === 'full' ? keys.length : strength);
+
+  return rows.map(row => ({
+    type,
+    ...Object.fromEntries(keys.map((key, i) => [key, row[i]])),
+  }));
+}
@@ -0,0 +1,132 @@
+import { AnyState, AnyStateMachine } from "xstate";
+
+/**
+ * Prefixes of the events an actor sends to itself.
+ */
+const INTERNAL_EVENT_PREFIXES = ['done.invoke.', 'error.platform.', 'done.state.', 'xstate.after('];
+
+/**
+ * Matches the type of a delayed event, e.g. `xstate.after(1000)#machine.waiting`.
+ */
+const DELAYED_EVENT_PATTERN = /^xstate\.after\((.+)\)#(.+)$/;
+
+/**
+ * A delayed event type, split into its parts.
+ */
+export type DelayedEventType = {
+  /**
+   * The delay, as written in the machine: a number of milliseconds, or the name
+   * of a delay in the machine's options.
+   */
+  delay: string;
+
+  /**
+   * The id of the state node the delayed transition belongs to.
+   */
+  stateId: string;
+}
+
+
+/**
+ * Returns the types of the events sent when the invoked service with the given id
+ * succeeds or fails.
+ *
+ * @param id
+ * @returns
+ *
+ * @example
+ * ```ts
+ * getInvocationEventTypes('fetchUser');
+ * // { done: 'done.invoke.fetchUser', error: 'error.platform.fetchUser' }
+ * ```
+ */
+export function getInvocationEventTypes(id: string) {
+  return {
+    done: `done.invoke.${id}`,
+    error: `error.platform.${id}`,
+  };
+}
+
+/**
+ * Returns the ids of the services invoked by the state's active state nodes.
+ *
+ * @param state
+ * @returns
+ *
+ * @example
+ * ```ts
+ * getActiveInvocationIds(loadingState);   // ['fetchUser']
+ * ```
+ */
+export function getActiveInvocationIds(state: AnyState): string[] {
+  return (state.configuration ?? []).flatMap(node => node.invoke.map(invocation => invocation.id));
+}
+
+/**
+ * Returns true if the event type is one an actor sends to itself, rather than
+ * one sent from outside.
+ *
+ * @param type
+ * @returns
+ *
+ * @example
+ * ```ts
+ * isInternalEvent('done.invoke.fetchUser');   // true
+ * isInternalEvent('SUBMIT');                  // false
+ * ```
+ */
+export function isInternalEvent(type: string) {
+  return INTERNAL_EVENT_PREFIXES.some(prefix => type.startsWith(prefix));
+}
+
+/**
+ * Splits a delayed event type into its delay and state id. Returns `undefined`
+ * if the event type isn't a delayed event.
+ *
+ * @param type
+ * @returns
+ *
+ * @example
+ * ```ts
+ * parseDelayedEventType('xstate.after(1000)#machine.waiting');
+ * // { delay: '1000', stateId: 'machine.waiting' }
+ * ```
+ */
+export function parseDelayedEventType(type: string): DelayedEventType | undefined {
+  const match = type.match(DELAYED_EVENT_PATTERN);
+
+  return match
+    ? { delay: match[1], stateId: match[2] }
+    : undefined;
+}
+
+/**
+ * Returns the delay, in milliseconds, of a delayed event sent from `fromState`.
+ * Named delays and delay expressions are resolved with the state's context and event.
+ *
+ * @param machine
+ * @param type
+ * @param fromState
+ * @returns the delay, or `undefined` if the event type isn't a delayed event
+ *
+ * @example
+ * ```ts
+ * resolveDelay(machine, 'xstate.after(timeout)#machine.waiting', state);   // 3000
+ * ```
+ */
+export function resolveDelay(machine: AnyStateMachine, type: string, fromState: AnyState): number | undefined {
+  const parsed = parseDelayedEventType(type);
+  if (!parsed)
+    return undefined;
+
+  const transition = machine.getStateNodeById(parsed.stateId).after.find(t => t.eventType === type);
+  let delay: unknown = transition?.delay ?? parsed.delay;
+
+  if (typeof delay === 'string')
+    delay = machine.options.delays?.[delay] ?? delay;
+
+  if (typeof delay === 'function')
+    delay = delay(fromState.context, fromState.event);
+
+  return Number(delay);
+}
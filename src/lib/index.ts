@@ -1,6 +1,16 @@
 export * from './util';
+export * from './constraints';
+export * from './coverage';
+export * from './diagram';
+export * from './errors';
 export * from './event-source';
+export * from './events';
+export * from './normalizers';
+export * from './path-budget';
 export * from './segment';
+export * from './state-graph';
+export * from './targets';
 export * from './path';
 export * from './path-runner';
-export * from './test-runner';
\ No newline at end of file
+export * from './test-runner';
+export * from './describe-paths';
\ No newline at end of file
@@ -0,0 +1,138 @@
+import { isObject, omit } from "radash";
+import { AnyEventObject } from "xstate";
+import { isGlobPattern, matchesGlob } from "@/lib/util";
+
+/**
+ * Normalizes an event's payload (the event without its `type`) before it is
+ * described or compared. Returns the normalized payload.
+ */
+export type PayloadNormalizerFn = (payload: any, event: AnyEventObject) => unknown;
+
+/**
+ * Payload normalizers, keyed by event type. Keys can also be glob patterns
+ * (`form.*`, `**`). When several normalizers apply to an event, the one for its
+ * exact type runs first, followed by any matching patterns in the order they
+ * were given.
+ */
+export type PayloadNormalizerMap = {
+  [eventType: string]: PayloadNormalizerFn | PayloadNormalizerFn[];
+}
+
+
+/**
+ * Returns a normalizer that removes the given keys from the payload. Nested
+ * keys can be given as dot-separated paths.
+ *
+ * @param keys
+ * @returns
+ *
+ * @example
+ * ```ts
+ * const normalizers = {
+ *   SUBMIT: ignoreKeys('timestamp', 'meta.requestId'),
+ * };
+ * ```
+ */
+export function ignoreKeys(...keys: string[]): PayloadNormalizerFn {
+  const keyPaths = keys.map(key => key.split('.'));
+
+  return payload => keyPaths.reduce(omitKeyPath, payload);
+}
+
+/**
+ * A normalizer that sorts the keys of the payload and of every plain object
+ * within it, so that payloads with the same data in a different order are
+ * described the same way.
+ *
+ * @example
+ * ```ts
+ * const normalizers = { '**': sortKeys };
+ *
+ * // { type: 'SUBMIT', b: 1, a: 2 } is described as 'SUBMIT {"a":2,"b":1}'
+ * ```
+ */
+export const sortKeys: PayloadNormalizerFn = payload => canonicalize(payload);
+
+/**
+ * Returns the normalizers that apply to the given event type.
+ *
+ * @param type
+ * @param normalizers
+ * @returns
+ */
+export function getPayloadNormalizers(type: string, normalizers: PayloadNormalizerMap = {}): PayloadNormalizerFn[] {
+  const matching = ([] as PayloadNormalizerFn[]).concat(normalizers[type] ?? []);
+
+  for (const [pattern, normalizer] of Object.entries(normalizers))
+    if (isGlobPattern(pattern) && matchesGlob(pattern, type))
+      matching.push(...([] as PayloadNormalizerFn[]).concat(normalizer));
+
+  return matching;
+}
+
+/**
+ * Returns the event's payload (the event without its `type`), after applying
+ * every normalizer for its type.
+ *
+ * @param event
+ * @param normalizers
+ * @returns
+ *
+ * @example
+ * ```ts
+ * normalizePayload(
+ *   { type: 'SUBMIT', value: 'foo', timestamp: 1700000000000 },
+ *   { SUBMIT: ignoreKeys('timestamp') }
+ * );
+ * // { value: 'foo' }
+ * ```
+ */
+export function normalizePayload(event: AnyEventObject, normalizers: PayloadNormalizerMap = {}): unknown {
+  return getPayloadNormalizers(event.type, normalizers)
+    .reduce<unknown>((payload, normalizer) => normalizer(payload, event), omit(event, ['type']));
+}
+
+
+/**
+ * Removes the value at the given key path, copying any objects along the way.
+ *
+ * @param value
+ * @param keyPath
+ * @returns
+ */
+function omitKeyPath(value: unknown, keyPath: string[]): unknown {
+  if (!isObject(value))
+    return value;
+
+  const [key, ...rest] = keyPath;
+  const record = value as Record<string, unknown>;
+
+  if (!(key in record))
+    return value;
+
+  return rest.length
+    ? { ...record, [key]: omitKeyPath(record[key], rest) }
+    : omit(record, [key]);
+}
+
+/**
+ * Returns a copy of the value with the keys of every plain object sorted.
+ *
+ * @param value
+ * @returns
+ */
+function canonicalize(value: unknown): unknown {
+  if (Array.isArray(value))
+    return value.map(canonicalize);
+
+  if (!isObject(value))
+    return value;
+
+  const record = value as Record<string, unknown>;
+
+  return Object.fromEntries(
+    Object.keys(record)
+      .sort()
+      .map(key => [key, canonicalize(record[key])])
+  );
+}
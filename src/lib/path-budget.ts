@@ -0,0 +1,220 @@
+/**
+ * How far path generation has got.
+ */
+export type PathGenerationProgress = {
+  /**
+   * The number of paths generated so far. Only paths that pass `filterPath` are counted.
+   */
+  paths: number;
+
+  /**
+   * The number of segments explored so far.
+   */
+  segments: number;
+
+  /**
+   * The length of the path the last explored segment was added to.
+   */
+  depth: number;
+
+  /**
+   * The number of paths waiting to be extended: the queue when generating
+   * breadth-first, or the stack when generating depth-first.
+   */
+  frontier: number;
+
+  /**
+   * The time since generation started, in milliseconds.
+   */
+  elapsedMs: number;
+}
+
+/**
+ * Why path generation stopped early.
+ */
+export type TruncationReason = 'maxPaths' | 'timeBudget' | 'aborted';
+
+/**
+ * Limits on path generation, and a callback to follow its progress.
+ */
+export type PathBudgetOptions = {
+  /**
+   * Stop after generating this many paths.
+   */
+  maxPaths?: number;
+
+  /**
+   * Stop after this many milliseconds.
+   */
+  timeBudgetMs?: number;
+
+  /**
+   * Stop when this signal is aborted.
+   */
+  signal?: AbortSignal;
+
+  /**
+   * Called each time a segment is explored.
+   *
+   * @param progress
+   */
+  onProgress?: (progress: PathGenerationProgress) => void;
+}
+
+
+/**
+ * Tracks the progress of path generation against a `PathBudgetOptions`. Generation
+ * checks `isExhausted()` before exploring each segment, and stops when it returns
+ * true. `truncated` then says why.
+ *
+ * @example
+ * ```ts
+ * const budget = new PathBudget({ maxPaths: 100, timeBudgetMs: 5000 });
+ * const paths = await arrayFromAsyncGenerator(Path.generatePaths(machine, options, budget));
+ *
+ * budget.truncated;   // "timeBudget"
+ * ```
+ */
+export class PathBudget {
+  /**
+   * The number of paths generated so far.
+   */
+  public paths = 0;
+
+  /**
+   * The number of segments explored so far.
+   */
+  public segments = 0;
+
+  /**
+   * The number of paths waiting to be extended.
+   */
+  public frontier = 0;
+
+  /**
+   * Why generation stopped early, if it did.
+   */
+  public truncated?: TruncationReason;
+
+  protected readonly startedAt = Date.now();
+
+  public constructor(protected readonly options: PathBudgetOptions = {}) { }
+
+  /**
+   * The time since the budget was created, in milliseconds.
+   */
+  public get elapsedMs() {
+    return Date.now() - this.startedAt;
+  }
+
+  /**
+   * Count a generated path.
+   */
+  public countPath() {
+    this.paths++;
+  }
+
+  /**
+   * Count an explored segment, and report progress.
+   *
+   * @param depth The length of the path the segment was added to.
+   */
+  public countSegment(depth: number) {
+    this.segments++;
+
+    this.options.onProgress?.({
+      paths: this.paths,
+      segments: this.segments,
+      depth,
+      frontier: this.frontier,
+      elapsedMs: this.elapsedMs,
+    });
+  }
+
+  /**
+   * Yields the given items until the budget is exhausted. Waiting for the next
+   * item is raced against `timeBudgetMs` and `signal`, so a slow async source
+   * can't hold up generation past its budget. The pending item is then abandoned.
+   * 
+   * @param items 
+   * 
+   * @example
+   * ```ts
+   * for await (const segment of budget.iterate(path.lastSegment.generateNextSegments()))
+   *   console.log(segment.description);
+   * ```
+   */
+  public async * iterate<T>(items: Iterable<T> | AsyncIterable<T>): AsyncGenerator<T> {
+    const iterator = Symbol.asyncIterator in items
+      ? items[Symbol.asyncIterator]()
+      : items[Symbol.iterator]();
+
+    while (!this.isExhausted()) {
+      const result = await this.race(Promise.resolve(iterator.next()));
+
+      if (!result || result.done)
+        return;
+
+      yield result.value;
+    }
+  }
+
+  /**
+   * Returns true if generation should stop, and records why in `truncated`.
+   *
+   * @returns
+   */
+  public isExhausted() {
+    const { maxPaths, timeBudgetMs, signal } = this.options;
+
+    if (this.truncated)
+      return true;
+
+    if (signal?.aborted)
+      this.truncated = 'aborted';
+    else if (maxPaths !== undefined && this.paths >= maxPaths)
+      this.truncated = 'maxPaths';
+    else if (timeBudgetMs !== undefined && this.elapsedMs >= timeBudgetMs)
+      this.truncated = 'timeBudget';
+
+    return this.truncated !== undefined;
+  }
+
+  /**
+   * @internal
+   * 
+   * Waits for the promise, unless the time budget runs out or the signal is
+   * aborted first. Then, `truncated` says why, and `undefined` is returned.
+   * 
+   * @param promise 
+   * @returns 
+   */
+  protected race<T>(promise: Promise<T>): Promise<T | undefined> {
+    const { timeBudgetMs, signal } = this.options;
+
+    if (timeBudgetMs === undefined && !signal)
+      return promise;
+
+    let timer: ReturnType<typeof setTimeout> | undefined;
+    let onAbort: (() => void) | undefined;
+
+    const exhausted = new Promise<undefined>(resolve => {
+      if (timeBudgetMs !== undefined)
+        timer = setTimeout(() => {
+          this.truncated ??= 'timeBudget';
+          resolve(undefined);
+        }, Math.max(timeBudgetMs - this.elapsedMs, 0));
+
+      onAbort = () => {
+        this.truncated ??= 'aborted';
+        resolve(undefined);
+      };
+      signal?.addEventListener('abort', onAbort);
+    });
+
+    return Promise.race([promise, exhausted]).finally(() => {
+      clearTimeout(timer);
+      signal?.removeEventListener('abort', onAbort!);
+    });
+  }
+}
@@ -1,6 +1,10 @@
-import { AnyState } from "xstate";
+import { AnyInterpreter, AnyState, interpret } from "xstate";
+import { SimulatedClock } from "xstate/lib/SimulatedClock";
+import { PathDivergenceError, PathRunError, PathTimeoutError } from "./errors";
+import { isInternalEvent, resolveDelay } from "./events";
 import { Path } from "./path";
 import { Segment } from "./segment";
+import { withTimeout } from "./util";
 
 export type OnTransitionFn<TContext extends any[]> = (currentState: AnyState, ...context: TContext) => void | Promise<void>;
 
@@ -9,18 +13,256 @@ export type TransitionCallbackMap<TContext extends any[] = []> = {
 };
 
 
+/**
+ * Hooks that are called as a `PathRunner` runs a path. Each hook receives the
+ * context arguments passed to `PathRunner.run`.
+ */
+export type PathRunnerHooks<TContext extends any[] = []> = {
+  /**
+   * Called before the path starts.
+   */
+  beforePath?: (path: Path, ...context: TContext) => void | Promise<void>;
+
+  /**
+   * Called after the path finishes, whether it passed or failed.
+   */
+  afterPath?: (path: Path, ...context: TContext) => void | Promise<void>;
+
+  /**
+   * Called before each segment runs. It is part of the step, so it is called
+   * again if the step is retried.
+   */
+  beforeSegment?: (path: Path, segment: Segment, ...context: TContext) => void | Promise<void>;
+
+  /**
+   * Called after each segment's `onTransition` has finished. It is part of the
+   * step, so it is called again if the step is retried.
+   */
+  afterSegment?: (path: Path, segment: Segment, ...context: TContext) => void | Promise<void>;
+
+  /**
+   * Called when the path fails, before `afterPath`.
+   */
+  onError?: (error: PathRunError, ...context: TContext) => void | Promise<void>;
+}
+
+/**
+ * Options for `PathRunner`.
+ */
+export type PathRunnerOptions<TContext extends any[] = []> = {
+  /**
+   * Lifecycle hooks, for setting up and tearing down fixtures.
+   */
+  hooks?: PathRunnerHooks<TContext>;
+
+  /**
+   * The maximum time, in milliseconds, a single step may take. A step is running
+   * a segment's transition and actions, followed by `onTransition`.
+   */
+  stepTimeout?: number;
+
+  /**
+   * The maximum time, in milliseconds, a whole path may take, from `beforePath`
+   * to the last step. `onError` and `afterPath` aren't bound by it, so that they
+   * can still tear down after the path timed out.
+   */
+  pathTimeout?: number;
+
+  /**
+   * The number of times a failed step is retried before the path fails. Steps
+   * that fail because the path timed out are not retried. Defaults to `0`.
+   */
+  retries?: number;
+
+  /**
+   * How segments are run:
+   * 
+   * - `transition`: each segment's event is applied with `machine.transition`, and
+   *   its actions are executed by hand. Invoked services, spawned actors, delayed
+   *   transitions and `send`/`raise` actions are not run.
+   * - `interpret`: the path runs against a live actor created with `interpret()`.
+   *   Each segment's event is sent to the actor, and the runner waits for it to
+   *   reach the segment's state. If it doesn't, the step fails with a
+   *   `PathDivergenceError`.
+   * 
+   * Defaults to `transition`.
+   */
+  mode?: 'transition' | 'interpret';
+
+  /**
+   * In `interpret` mode, the maximum time, in milliseconds, to wait for the actor
+   * to reach a segment's state after its event is sent. Defaults to `0`, which
+   * waits for one turn of the event loop.
+   */
+  settleTimeout?: number;
+
+  /**
+   * In `interpret` mode, the clock the actor uses for delayed transitions and
+   * delayed events:
+   * 
+   * - `simulated`: an xstate `SimulatedClock`. Time only moves forward when a
+   *   delayed segment, such as `wait 3000ms -> timedOut`, is run, so delayed
+   *   transitions are replayed deterministically.
+   * - `real`: the system clock. Delayed segments aren't sent; the runner waits for
+   *   the delay to pass, plus `settleTimeout`.
+   * 
+   * Defaults to `simulated`.
+   */
+  clock?: 'simulated' | 'real';
+}
+
+
 export abstract class PathRunner<TContext extends any[]> {
+  public constructor(
+    protected readonly options: PathRunnerOptions<TContext> = {}
+  ) { }
+
+  /**
+   * Run each segment of the path in turn. If a step fails, a `PathRunError` is
+   * thrown, with the index of the segment that failed. The `afterPath` hook is
+   * always called, even if the path fails. If `onError` or `afterPath` throw after
+   * the path failed, the original `PathRunError` is still the one thrown.
+   * 
+   * @param path 
+   * @param context 
+   */
   public async run(path: Path, ...context: TContext) {
+    const { pathTimeout, hooks = {} } = this.options;
+    const deadline = pathTimeout === undefined ? Infinity : Date.now() + pathTimeout;
+    const service = this.options.mode === 'interpret'
+      ? interpret(path.machine, this.options.clock === 'real' ? {} : { clock: new SimulatedClock() })
+      : undefined;
+
     let currentState = path.machine.initialState;
-    await this.onTransition(currentState, ...context);
+    let failure: PathRunError | undefined;
+
+    try {
+      await withTimeout(Promise.resolve(hooks.beforePath?.(path, ...context)), deadline - Date.now(), () => (
+        new PathTimeoutError('path', pathTimeout!)
+      ));
+
+      if (service)
+        currentState = service.start().getSnapshot();
+
+      for (let segmentIndex = 0; segmentIndex < path.segments.length; segmentIndex++)
+        currentState = await this.runStep(path, segmentIndex, currentState, deadline, service, ...context);
+    } catch (error) {
+      // Errors from beforePath are reported against the initial segment
+      failure = error instanceof PathRunError
+        ? error
+        : new PathRunError(path, 0, currentState, error);
+    }
+
+    service?.stop();
+
+    // Errors from onError and afterPath don't replace the original failure
+    if (failure) {
+      try {
+        await hooks.onError?.(failure, ...context);
+      } catch {
+        // Report the original failure
+      }
+    }
+
+    try {
+      await hooks.afterPath?.(path, ...context);
+    } catch (error) {
+      if (!failure)
+        throw error;
+    }
+
+    if (failure)
+      throw failure;
+  }
+
+  /**
+   * Run a single step of the path, retrying it if it fails. The initial segment
+   * has no transition, so its step only calls `onTransition`. When running against
+   * a live actor, the segment's event is only ever sent once: a retried step waits
+   * for the actor to reach the segment's state again instead.
+   * 
+   * A step that times out is aborted before it is retried, so it stops at its next
+   * phase instead of running alongside the retry.
+   * 
+   * @param path 
+   * @param segmentIndex 
+   * @param fromState 
+   * @param deadline The time the path must finish by.
+   * @param service The live actor, in `interpret` mode.
+   * @param context 
+   * @returns the state reached by the step
+   */
+  protected async runStep(path: Path, segmentIndex: number, fromState: AnyState, deadline: number, service: AnyInterpreter | undefined, ...context: TContext) {
+    const { retries = 0, hooks = {} } = this.options;
+    const segment = path.segments[segmentIndex];
+    let sent = segmentIndex === 0;
+
+    for (let attempt = 1; ; attempt++) {
+      let currentState = fromState;
+
+      const step = async (signal: AbortSignal) => {
+        const checkAborted = () => {
+          if (signal.aborted)
+            throw signal.reason;
+        };
+
+        await hooks.beforeSegment?.(path, segment, ...context);
+        checkAborted();
+
+        if (service) {
+          if (!sent) {
+            this.sendInterpretedEvent(segment, service);
+            sent = true;
+          }
+
+          currentState = await this.settleInterpretedSegment(segment, service, signal);
+        } else if (segmentIndex > 0) {
+          currentState = await this.runSegment(segment, fromState);
+        }
 
-    // Use slice() to skip the initial state.
-    for (const segment of path.segments.slice(1)) {
-      currentState = await this.runSegment(segment, currentState);
-      await this.onTransition(currentState, ...context);
+        checkAborted();
+        await this.onTransition(currentState, ...context);
+        checkAborted();
+        await hooks.afterSegment?.(path, segment, ...context);
+        return currentState;
+      };
+
+      try {
+        return await this.withTimeouts(step, deadline);
+      } catch (error) {
+        const pathTimedOut = error instanceof PathTimeoutError && error.scope === 'path';
+
+        if (attempt > retries || pathTimedOut)
+          throw new PathRunError(path, segmentIndex, currentState, error, attempt);
+      }
     }
   }
 
+  /**
+   * @internal
+   * 
+   * Applies the step and path timeouts to a step. If the step times out, the
+   * signal passed to it is aborted with the timeout error.
+   * 
+   * @param step 
+   * @param deadline 
+   * @returns 
+   */
+  protected withTimeouts<T>(step: (signal: AbortSignal) => Promise<T>, deadline: number) {
+    const { stepTimeout = Infinity, pathTimeout = Infinity } = this.options;
+    const remaining = deadline - Date.now();
+    const controller = new AbortController();
+
+    const abort = (error: PathTimeoutError) => {
+      controller.abort(error);
+      return error;
+    };
+
+    return remaining < stepTimeout
+      ? withTimeout(step(controller.signal), remaining, () => abort(new PathTimeoutError('path', pathTimeout)))
+      : withTimeout(step(controller.signal), stepTimeout, () => abort(new PathTimeoutError('step', stepTimeout)));
+  }
+
   protected async runSegment(segment: Segment, state: AnyState) {
     const nextState = segment.machine.transition(state, segment.event);
     await this.runActions(nextState);
@@ -28,6 +270,84 @@ export abstract class PathRunner<TContext extends any[]> {
     return nextState;
   }
 
+  /**
+   * Send the segment's event to the live actor. Events the actor sends itself,
+   * such as `done.invoke.*` and `error.platform.*`, aren't sent; the runner only
+   * waits for them. For delayed events, a simulated clock is moved forward by the
+   * delay.
+   * 
+   * @param segment 
+   * @param service 
+   */
+  protected sendInterpretedEvent(segment: Segment, service: AnyInterpreter) {
+    const { type } = segment.event;
+    const delay = resolveDelay(segment.machine, type, service.getSnapshot());
+
+    if (delay !== undefined && service.clock instanceof SimulatedClock)
+      service.clock.increment(delay);
+    else if (!isInternalEvent(type))
+      service.send(segment.event);
+  }
+
+  /**
+   * Wait for the live actor to reach the segment's state, after its event has
+   * been sent.
+   * 
+   * @param segment 
+   * @param service 
+   * @param signal Stops waiting when aborted.
+   * @returns the state the actor reached
+   */
+  protected async settleInterpretedSegment(segment: Segment, service: AnyInterpreter, signal?: AbortSignal) {
+    const nextState = await this.waitForState(segment, service, signal);
+
+    if (!segment.reachesState(nextState))
+      throw new PathDivergenceError(segment, nextState);
+
+    return nextState;
+  }
+
+  /**
+   * @internal
+   * 
+   * Resolves with the actor's state as soon as it reaches the segment's state, or
+   * with its latest state once `settleTimeout` has passed. With a real clock, a
+   * delayed segment also waits for its delay.
+   * 
+   * @param segment 
+   * @param service 
+   * @param signal Settles with the actor's latest state when aborted.
+   * @returns 
+   */
+  protected waitForState(segment: Segment, service: AnyInterpreter, signal?: AbortSignal) {
+    const { settleTimeout = 0, clock } = this.options;
+    const delay = clock === 'real'
+      ? resolveDelay(segment.machine, segment.event.type, service.getSnapshot()) ?? 0
+      : 0;
+
+    return new Promise<AnyState>(resolve => {
+      let settled = false;
+
+      const settle = (state: AnyState) => {
+        if (settled)
+          return;
+
+        settled = true;
+        clearTimeout(timer);
+        // The listener may be called before subscribe() returns
+        queueMicrotask(() => subscription.unsubscribe());
+        resolve(state);
+      };
+
+      const timer = setTimeout(() => settle(service.getSnapshot()), delay + settleTimeout);
+      signal?.addEventListener('abort', () => settle(service.getSnapshot()), { once: true });
+      const subscription = service.subscribe(state => {
+        if (segment.reachesState(state))
+          settle(state);
+      });
+    });
+  }
+
   protected async runActions(state: AnyState) {
     const { actions, context, event, meta } = state;
 
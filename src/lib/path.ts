@@ -1,27 +1,67 @@
+import { PathConstraint, canSatisfyConstraints, satisfiesConstraints } from "@/lib/constraints";
+import { CoverageCriterion, getCoverageItems, getSegmentsCoverage } from "@/lib/coverage";
+import { PathLoadError } from "@/lib/errors";
+import { PathBudget, PathBudgetOptions, TruncationReason } from "@/lib/path-budget";
 import { EventSource } from "@/lib/event-source";
-import { Segment } from "@/lib/segment";
-import { arrayFromAsyncGenerator } from "@/lib/util";
-import { AnyState, AnyStateMachine } from "xstate";
+import { Segment, SegmentOptions, SerializedSegment } from "@/lib/segment";
+import { StateGraph } from "@/lib/state-graph";
+import { StateTarget, matchesTarget } from "@/lib/targets";
+import { SequenceTrie, arrayFromAsyncGenerator, seededRandom, weightedRandomItem } from "@/lib/util";
+import { AnyState, AnyStateMachine, State, StateValue } from "xstate";
 
 
 /**
- * Options for `Path.makePaths`.
+ * The order in which paths are explored. `dfs` (depth-first) follows each branch
+ * to its end before trying the next one; `bfs` (breadth-first) yields all paths of
+ * a given length before any longer ones.
  */
-export type MakePathOptions = {
+export type PathStrategy = 'bfs' | 'dfs';
+
+/**
+ * How `Path.deduplicate` decides that a path is travelled by another path:
+ * 
+ * - `prefix`: the path is the start of the other path
+ * - `subpath`: the path's segments appear, in order and without gaps, anywhere in the other path
+ * - `similar`: like `subpath`, but segments only need to be similar (the same event type and target)
+ */
+export type DeduplicateMode = 'prefix' | 'subpath' | 'similar';
+
+/**
+ * Options for `Path.makePaths`. The `SegmentOptions` apply to every segment of
+ * every path, and so to the default filters and deduplication. The
+ * `PathBudgetOptions` limit how long generation can run.
+ */
+export type MakePathOptions = SegmentOptions & PathBudgetOptions & {
   /**
    * An `EventSource` that is used to generate events for the path.
    */
   eventSource?: EventSource;
 
+  /**
+   * Generate paths by walking a `StateGraph`, instead of transitioning the machine
+   * for every path. `true` uses the machine's cached graph for these options. This
+   * is much faster for larger machines, but the event source isn't given the path,
+   * so events can only depend on the state they're sent from. Segments are shared
+   * by every path that reaches the same state, so if context affects transitions,
+   * make it part of the state's identity with the `context` option.
+   */
+  graph?: StateGraph | boolean;
+
   /**
    * The maximum number of segments a path can have.
    */
   maxLength?: number;
 
   /**
-   * Whether to use Path.deduplicate() on the resulting set of paths.
+   * The order in which paths are explored. Defaults to `dfs`.
+   */
+  strategy?: PathStrategy;
+
+  /**
+   * Whether to use Path.deduplicate() on the resulting set of paths. `true` uses
+   * the `subpath` mode.
    */
-  deduplicate?: boolean;
+  deduplicate?: boolean | DeduplicateMode;
 
   /**
    * Filters segments during path generation. If `filterSegment` returns `false`,
@@ -41,9 +81,168 @@ export type MakePathOptions = {
    * @returns 
    */
   filterPath?: (path: Path) => boolean;
+
+  /**
+   * Rules that every path must follow, such as `never('CANCEL')` or
+   * `before('review', 'paid')`. Paths that can no longer satisfy a constraint
+   * are not explored any further, and only paths that satisfy every constraint
+   * are included in the result.
+   */
+  constraints?: PathConstraint[];
+}
+
+
+
+/**
+ * Which paths `Path.pathsTo` returns:
+ * 
+ * - `shortest`: the shortest path to each distinct state that matches the target
+ * - `all`: every simple path (one that never revisits a state) to a matching state
+ */
+export type PathsToMode = 'shortest' | 'all';
+
+/**
+ * Options for `Path.pathsTo`.
+ */
+export type PathsToOptions = MakePathOptions & {
+  /**
+   * Defaults to `all`.
+   */
+  mode?: PathsToMode;
+}
+
+/**
+ * The result of `Path.explorePaths`.
+ */
+export type ExplorePathsResult = {
+  /**
+   * The generated paths.
+   */
+  paths: Path[];
+
+  /**
+   * Whether generation stopped early because of `maxPaths`, `timeBudgetMs` or
+   * `signal`, so that `paths` is only a partial result.
+   */
+  truncated: boolean;
+
+  /**
+   * Why generation stopped early, if it did.
+   */
+  reason?: TruncationReason;
 }
 
 
+/**
+ * Options for `Path.coverPaths`.
+ */
+export type CoverPathOptions = MakePathOptions & {
+  /**
+   * What the resulting paths should cover. Defaults to `states`.
+   */
+  criterion?: CoverageCriterion;
+}
+
+/**
+ * The result of `Path.coverPaths`.
+ */
+export type CoverPathsResult = {
+  /**
+   * The selected paths.
+   */
+  paths: Path[];
+
+  /**
+   * Anything the machine declares that no generated path covers.
+   */
+  uncovered: string[];
+}
+
+
+/**
+ * Options for `Path.randomWalk` and `Path.randomWalks`.
+ */
+export type RandomWalkOptions = SegmentOptions & {
+  /**
+   * An `EventSource` that is used to generate events for the walk.
+   */
+  eventSource?: EventSource;
+
+  /**
+   * The seed for the random number generator. Defaults to `0`.
+   */
+  seed?: number;
+
+  /**
+   * The number of walks to make. Only used by `Path.randomWalks`. Defaults to `1`.
+   */
+  walks?: number;
+
+  /**
+   * The maximum number of segments a walk can have. Defaults to `10`.
+   */
+  maxLength?: number;
+}
+
+
+/**
+ * A `Path`, in a form that can be saved as JSON.
+ */
+export type SerializedPath = {
+  segments: SerializedSegment[];
+}
+
+/**
+ * A set of paths, in a form that can be saved as JSON.
+ */
+export type SerializedPathSet = {
+  /**
+   * The id of the machine the paths were generated for.
+   */
+  machine?: string;
+
+  paths: SerializedPath[];
+}
+
+
+/**
+ * The result of validating a path against a machine.
+ */
+export type PathValidation = {
+  /**
+   * The path that was validated.
+   */
+  path: Path | SerializedPath;
+
+  /**
+   * Whether the path can still be replayed on the machine.
+   */
+  valid: boolean;
+
+  /**
+   * The index of the first segment that couldn't be replayed.
+   */
+  failedSegmentIndex?: number;
+
+  /**
+   * Why the segment couldn't be replayed: either the event is no longer accepted
+   * by the previous state, or it leads to a different state.
+   */
+  reason?: 'event-not-accepted' | 'state-mismatch';
+
+  /**
+   * The state value the failed segment expected to reach.
+   */
+  expectedState?: StateValue;
+
+  /**
+   * The state actually reached. If the path is invalid, this is the state
+   * reached by the failed segment (or the state it was sent from, if the event
+   * wasn't accepted). Otherwise, it's the final state of the path.
+   */
+  actualState: AnyState;
+}
+
 
 /**
  * A path through a state machine.
@@ -75,94 +274,693 @@ export class Path {
    * @returns 
    */
   public static async makePaths(machine: AnyStateMachine, options: MakePathOptions = {}) {
-    const pathGenerator = Path.generatePaths(machine, options);
+    const { paths } = await Path.explorePaths(machine, options);
+    return paths;
+  }
+
+  /**
+   * Create paths for the given machine, and report whether generation stopped
+   * early because of `options.maxPaths`, `options.timeBudgetMs` or `options.signal`.
+   * 
+   * @param machine 
+   * @param options 
+   * @returns 
+   * 
+   * @example
+   * ```ts
+   * const { paths, truncated, reason } = await Path.explorePaths(machine, {
+   *   timeBudgetMs: 30_000,
+   *   onProgress: ({ paths, segments }) => console.log(`${paths} paths, ${segments} segments`),
+   * });
+   * 
+   * if (truncated)
+   *   console.warn(`Only ${paths.length} paths were generated (${reason})`);
+   * ```
+   */
+  public static async explorePaths(machine: AnyStateMachine, options: MakePathOptions = {}): Promise<ExplorePathsResult> {
+    const budget = new PathBudget(options);
+    const pathGenerator = Path.generatePaths(machine, options, budget);
     const paths = await arrayFromAsyncGenerator(pathGenerator);
 
-    if (options.deduplicate)
-      return Path.deduplicate(paths);
-    else
-      return paths;
+    return {
+      paths: options.deduplicate
+        ? Path.deduplicate(paths, options.deduplicate === true ? 'subpath' : options.deduplicate)
+        : paths,
+      truncated: budget.truncated !== undefined,
+      reason: budget.truncated,
+    };
   }
 
   /**
    * Generate paths for the given machine.
    * 
    * @param machine 
-   * @param events 
    * @param options 
+   * @param budget Tracks generation against the limits in `options`. Pass one in
+   * to find out whether generation stopped early.
    */
-  public static async * generatePaths(machine: AnyStateMachine, options?: MakePathOptions) {
+  public static async * generatePaths(machine: AnyStateMachine, options?: MakePathOptions, budget = new PathBudget(options)) {
     const {
       filterPath = Path.defaultPathFilter,
+      constraints = [],
     } = options ?? {};
 
-    const pathToInitialState = new Path(machine);
+    const pathToInitialState = Path.fromInitialState(machine, options);
 
-    if (filterPath(pathToInitialState))
+    if (budget.isExhausted() || !canSatisfyConstraints(constraints, pathToInitialState))
+      return;
+
+    if (filterPath(pathToInitialState) && satisfiesConstraints(constraints, pathToInitialState)) {
+      budget.countPath();
       yield pathToInitialState;
+    }
 
-    yield* pathToInitialState.generateNextPaths(options);
+    yield* pathToInitialState.generateNextPaths(options, budget);
   }
 
   /**
-   * Deduplicate the given paths. A path is considered "duplicated" if another path
-   * contains all of its segments.
+   * Create a path that only contains the machine's initial state, with the given
+   * segment options.
+   * 
+   * @param machine 
+   * @param options 
+   * @returns 
+   * 
+   * @example
+   * ```ts
+   * const path = Path.fromInitialState(machine, { context: true });
+   * path.description;   // "xstate.init -> idle {"count":0}"
+   * ```
+   */
+  public static fromInitialState(machine: AnyStateMachine, options: SegmentOptions = {}) {
+    const { context, normalizers } = options;
+    return new Path(machine, [new Segment(machine, machine.initialState, 1, { context, normalizers })]);
+  }
+
+  /**
+   * Deduplicate the given paths. A path is considered "duplicated" if a longer (or
+   * earlier, equally long) path travels all of its segments, according to `mode`.
+   * Paths are compared segment by segment, using `Segment.description` or, in the
+   * `similar` mode, `Segment.similarityKey`.
    * 
    * @param paths 
+   * @param mode Defaults to `subpath`.
    * @returns 
+   * 
+   * @example
+   * ```ts
+   * // Keep only paths that aren't the start of another path
+   * const paths = Path.deduplicate(allPaths, 'prefix');
+   * ```
    */
-  public static deduplicate(paths: Path[]) {
+  public static deduplicate(paths: Path[], mode: DeduplicateMode = 'subpath') {
     const deduplicatedPaths: Path[] = [];
 
-    // Take the longest paths first, and then remove any paths that are subpaths of those
-    const sortedPaths = paths.sort((a, b) => b.length - a.length); // Longest first
+    // Take the longest paths first, and then remove any paths that are travelled by those
+    const sortedPaths = [...paths].sort((a, b) => b.length - a.length); // Longest first
 
-    // Using a Map for performance reasons
-    const descriptions = new Map<Path, string>(paths.map(path => [path, path.description]));
+    // Every travelled prefix, or every travelled subpath (as prefixes of suffixes)
+    const travelled = new SequenceTrie<string>();
 
-    // Only keep paths that aren't travelled by other paths
     for (const path of sortedPaths) {
-      if (!deduplicatedPaths.some(p => descriptions.get(p)!.includes(descriptions.get(path)!)))
-        deduplicatedPaths.push(path);
+      const keys = path.segments.map(segment => mode === 'similar' ? segment.similarityKey : segment.description);
+
+      if (travelled.hasPrefix(keys))
+        continue;
+
+      deduplicatedPaths.push(path);
+
+      if (mode === 'prefix')
+        travelled.add(keys);
+      else
+        for (let start = 0; start < keys.length; start++)
+          travelled.add(keys.slice(start));
     }
 
     return deduplicatedPaths.reverse();
   }
 
   /**
-   * Generate the next possible paths.
+   * Returns the shortest path to each distinct target state value. Paths are
+   * explored breadth-first, and branches that reach an already-reached state
+   * are not explored any further. If `options.context` is given, states with the
+   * same value but different context are distinct targets.
+   * 
+   * If `options.filterPath` is given, it is applied to the resulting paths.
+   * 
+   * @param machine 
+   * @param options 
+   * @returns 
+   * 
+   * @example
+   * ```ts
+   * const paths = await Path.shortestPaths(machine);
+   * 
+   * paths.map(path => path.targetDescription);
+   * // ['"start"', '{"middle":"a"}', '{"middle":"b"}', '"end"']
+   * ```
+   */
+  public static async shortestPaths(machine: AnyStateMachine, options: MakePathOptions = {}) {
+    const {
+      filterSegment = Path.defaultSegmentFilter,
+      filterPath = () => true,
+    } = options;
+
+    const shortestPaths = new Map<string, Path>();
+    const pathGenerator = Path.generatePaths(machine, {
+      ...options,
+      strategy: 'bfs',
+      filterSegment: (segment, path) => (
+        !shortestPaths.has(segment.targetKey) &&
+        filterSegment(segment, path)
+      ),
+      filterPath: () => true,
+    });
+
+    for await (const path of pathGenerator)
+      if (!shortestPaths.has(path.targetDescription))
+        shortestPaths.set(path.targetDescription, path);
+
+    return Array.from(shortestPaths.values()).filter(filterPath);
+  }
+
+  /**
+   * Returns the paths that reach the given target: a state value, a string for
+   * `State.matches`, a tag prefixed with `tag:`, or a predicate. Paths end as soon
+   * as they reach the target.
+   * 
+   * If `options.context` makes context part of each state's identity, or a graph
+   * is given in `options.graph`, branches that can't reach the target are pruned
+   * using that `StateGraph`, explored up to `options.maxLength`. Otherwise nothing
+   * is pruned, since a state that is first reached with one context may only reach
+   * the target with another. The graph's event source isn't given the path, so
+   * events that depend on the path aren't taken into account when pruning either.
+   * If the graph is incomplete, or explored less deeply than `options.maxLength`,
+   * nothing is pruned.
+   * 
+   * `options.filterSegment` and `options.filterPath` are applied on top of this;
+   * the default filters are not used.
+   * 
+   * @param machine 
+   * @param target 
+   * @param options 
+   * @returns 
+   * 
+   * @example
+   * ```ts
+   * const paths = await Path.pathsTo(machine, 'checkout.paymentFailed');
+   * const [shortest] = await Path.pathsTo(machine, 'tag:error', { mode: 'shortest' });
+   * ```
+   */
+  public static async pathsTo(machine: AnyStateMachine, target: StateTarget, options: PathsToOptions = {}) {
+    const {
+      mode = 'all',
+      filterSegment = () => true,
+      filterPath = () => true,
+      constraints = [],
+      maxLength = 10,
+    } = options;
+
+    const graph = options.graph instanceof StateGraph
+      ? options.graph
+      : options.graph || options.context
+        ? await StateGraph.forMachine(machine, { ...options, maxDepth: maxLength })
+        : undefined;
+
+    // A node's transitions were only explored with the context it was first found
+    // with, unless context is part of its identity. States beyond the explored part
+    // of the graph might still reach the target.
+    const canPrune = !!graph &&
+      (options.graph instanceof StateGraph || !!options.context) &&
+      graph.complete &&
+      (graph.options.maxDepth ?? Infinity) >= maxLength;
+    const targetIds = canPrune
+      ? Array.from(graph.nodes.values())
+        .filter(node => matchesTarget(node.state, target))
+        .map(node => node.id)
+      : [];
+    const reachesTarget = canPrune ? graph.getNodesReaching(targetIds) : new Set<string>();
+    const isTarget = (segment?: Segment) => !!segment && matchesTarget(segment.state, target);
+
+    // States already reached, when only the shortest paths are wanted. The same
+    // state can reach different states with different context, so unless context
+    // is part of the identity, states are only the same if their context is too.
+    const getReachedKey = (segment: Segment) => options.context
+      ? segment.targetKey
+      : `${segment.targetKey} ${JSON.stringify(segment.state.context)}`;
+    const reached = new Set<string>([getReachedKey(Path.fromInitialState(machine, options).lastSegment!)]);
+
+    const paths = await Path.makePaths(machine, {
+      ...options,
+      graph: options.graph === true ? graph : options.graph,
+      strategy: mode === 'shortest' ? 'bfs' : options.strategy,
+      filterSegment: (segment, path) => {
+        const accepted = (
+          (!canPrune || reachesTarget.has(segment.targetKey)) &&
+          !isTarget(path.lastSegment) &&
+          !(mode === 'shortest' ? reached.has(getReachedKey(segment)) : path.segments.some(s => s.hasSameTarget(segment))) &&
+          filterSegment(segment, path) &&
+          canSatisfyConstraints(constraints, new Path(machine, path.segments.concat(segment)))
+        );
+
+        if (accepted && mode === 'shortest')
+          reached.add(getReachedKey(segment));
+
+        return accepted;
+      },
+      filterPath: path => isTarget(path.lastSegment) && filterPath(path),
+    });
+
+    if (mode === 'all')
+      return paths;
+
+    // Paths are found breadth-first, so the first path to each state is the shortest
+    const shortestPaths = new Map<string, Path>();
+    for (const path of paths)
+      if (!shortestPaths.has(path.lastSegment!.targetKey))
+        shortestPaths.set(path.lastSegment!.targetKey, path);
+
+    return Array.from(shortestPaths.values());
+  }
+
+  /**
+   * Returns a small set of paths that together cover every state node, transition
+   * or event type in the machine, depending on `options.criterion`. Anything that
+   * can't be covered within `options.maxLength` is listed in `uncovered`.
    * 
+   * Paths are chosen greedily: at each step, the path that covers the most
+   * uncovered items is taken, preferring shorter paths on a tie. Unless a
+   * `filterPath` is given, every generated path is a candidate, not just final
+   * paths.
+   * 
+   * @param machine 
+   * @param options 
+   * @returns 
+   * 
+   * @example
+   * ```ts
+   * const { paths, uncovered } = await Path.coverPaths(machine, { criterion: 'transitions' });
+   * ```
+   */
+  public static async coverPaths(machine: AnyStateMachine, options: CoverPathOptions = {}): Promise<CoverPathsResult> {
+    const {
+      criterion = 'states',
+      filterPath = () => true,
+    } = options;
+
+    const candidates = await Path.makePaths(machine, { ...options, filterPath, deduplicate: false });
+    const candidateCoverage = new Map(candidates.map(path => [path, getSegmentsCoverage(path.segments, criterion)]));
+    const uncovered = new Set(getCoverageItems(machine, criterion));
+    const paths: Path[] = [];
+
+    while (uncovered.size) {
+      let bestPath: Path | undefined;
+      let bestCount = 0;
+
+      for (const [path, coverage] of candidateCoverage) {
+        let count = 0;
+        for (const item of coverage)
+          if (uncovered.has(item))
+            count++;
+
+        if (count > bestCount || (count && count === bestCount && path.length < bestPath!.length)) {
+          bestPath = path;
+          bestCount = count;
+        }
+      }
+
+      if (!bestPath)
+        break;
+
+      paths.push(bestPath);
+      for (const item of candidateCoverage.get(bestPath)!)
+        uncovered.delete(item);
+      candidateCoverage.delete(bestPath);
+    }
+
+    return { paths, uncovered: Array.from(uncovered) };
+  }
+
+  /**
+   * Make a single random walk through the machine. At each step, one of the events
+   * from the event source is picked at random, according to its weight, until the
+   * walk reaches a final state or `options.maxLength`. The same seed always produces
+   * the same path.
+   * 
+   * @param machine 
+   * @param options 
+   * @returns 
+   * 
+   * @example
+   * ```ts
+   * const path = await Path.randomWalk(machine, { seed: 42 });
+   * ```
+   */
+  public static async randomWalk(machine: AnyStateMachine, options: RandomWalkOptions = {}) {
+    const {
+      eventSource = new EventSource(),
+      seed = 0,
+      maxLength = 10,
+    } = options;
+
+    const random = seededRandom(seed);
+    let path = Path.fromInitialState(machine, options);
+
+    while (!path.isFinal() && path.length < maxLength) {
+      const fromState = path.lastSegment!.state;
+      const weightedEvents = await arrayFromAsyncGenerator(eventSource.generateWeightedNextEvents(fromState, path));
+      const picked = weightedRandomItem(weightedEvents, weightedEvents.map(({ probability }) => probability), random);
+
+      if (!picked)
+        break;
+
+      const nextSegment = new Segment(machine, machine.transition(fromState, picked.event), picked.probability, path.lastSegment!.options);
+      path = new Path(machine, path.segments.concat(nextSegment));
+    }
+
+    return path;
+  }
+
+  /**
+   * Make `options.walks` random walks through the machine. Walk `i` uses the seed
+   * `options.seed + i`, so any single walk can be reproduced with `Path.randomWalk`.
+   * 
+   * @param machine 
    * @param options 
+   * @returns 
+   * 
+   * @example
+   * ```ts
+   * const paths = await Path.randomWalks(machine, { seed: 42, walks: 100 });
+   * 
+   * // Reproduce the fifth walk
+   * const path = await Path.randomWalk(machine, { seed: 42 + 4 });
+   * ```
    */
-  public async * generateNextPaths(options?: MakePathOptions): AsyncGenerator<Path> {
+  public static async randomWalks(machine: AnyStateMachine, options: RandomWalkOptions = {}) {
+    const { seed = 0, walks = 1 } = options;
+    const paths: Path[] = [];
+
+    for (let i = 0; i < walks; i++)
+      paths.push(await Path.randomWalk(machine, { ...options, seed: seed + i }));
+
+    return paths;
+  }
+
+  /**
+   * Rebuild a path from its JSON form, by replaying the saved events through
+   * `machine.transition`. Throws a `PathLoadError` if any of the resulting states
+   * don't match the saved state values.
+   * 
+   * @param machine 
+   * @param data 
+   * @param options How the loaded segments are described and compared.
+   * @returns 
+   * 
+   * @example
+   * ```ts
+   * const saved = JSON.stringify(path);
+   * const loaded = Path.fromJSON(machine, JSON.parse(saved));
+   * 
+   * loaded.matches(path);   // true
+   * ```
+   */
+  public static fromJSON(machine: AnyStateMachine, data: SerializedPath, options: SegmentOptions = {}) {
+    const segments: Segment[] = [];
+    let state = machine.initialState;
+
+    data.segments.forEach((serialized, index) => {
+      if (index > 0)
+        state = machine.transition(state, serialized.event);
+
+      if (JSON.stringify(state.value) !== JSON.stringify(serialized.state))
+        throw new PathLoadError(
+          `Segment ${index} (${serialized.event.type}) reached ${JSON.stringify(state.value)}, ` +
+          `but the saved path expects ${JSON.stringify(serialized.state)}`,
+          index
+        );
+
+      segments.push(new Segment(machine, state, serialized.probability, options));
+    });
+
+    return new Path(machine, segments);
+  }
+
+  /**
+   * Save a set of paths as a JSON string.
+   * 
+   * @param paths 
+   * @returns 
+   * 
+   * @example
+   * ```ts
+   * const paths = await Path.makePaths(machine);
+   * await fs.writeFile('paths.json', Path.savePaths(paths));
+   * ```
+   */
+  public static savePaths(paths: Path[]) {
+    const pathSet: SerializedPathSet = {
+      machine: paths[0]?.machine.id,
+      paths: paths.map(path => path.toJSON()),
+    };
+
+    return JSON.stringify(pathSet, null, 2);
+  }
+
+  /**
+   * Load a set of paths saved with `Path.savePaths`. Throws a `PathLoadError` if
+   * the paths were saved for a different machine, or if any path no longer
+   * matches the machine.
+   * 
+   * @param machine 
+   * @param data A JSON string, or the parsed `SerializedPathSet`.
+   * @param options How the loaded segments are described and compared.
+   * @returns 
+   * 
+   * @example
+   * ```ts
+   * const paths = Path.loadPaths(machine, await fs.readFile('paths.json', 'utf-8'));
+   * ```
+   */
+  public static loadPaths(machine: AnyStateMachine, data: string | SerializedPathSet, options: SegmentOptions = {}) {
+    const pathSet: SerializedPathSet = typeof data === 'string' ? JSON.parse(data) : data;
+
+    if (pathSet.machine !== undefined && pathSet.machine !== machine.id)
+      throw new PathLoadError(`The paths were saved for machine "${pathSet.machine}", not "${machine.id}"`);
+
+    return pathSet.paths.map(path => Path.fromJSON(machine, path, options));
+  }
+
+  /**
+   * Validate each of the given paths against the machine. Paths can be `Path`
+   * objects, or paths saved with `toJSON` or `savePaths`, so that saved paths
+   * can be checked without loading them.
+   * 
+   * @param machine 
+   * @param paths 
+   * @returns one `PathValidation` per path
+   * 
+   * @example
+   * ```ts
+   * const { paths } = JSON.parse(await fs.readFile('paths.json', 'utf-8'));
+   * const stale = Path.validatePaths(machine, paths).filter(result => !result.valid);
+   * ```
+   */
+  public static validatePaths(machine: AnyStateMachine, paths: Array<Path | SerializedPath>): PathValidation[] {
+    return paths.map(path => path instanceof Path
+      ? path.validate(machine)
+      : Path.validateSegments(machine, path, path.segments)
+    );
+  }
+
+  /**
+   * @internal
+   * 
+   * Replays the given segments on the machine, and reports the first one that
+   * no longer matches. An event is accepted if the state has a transition for it,
+   * even if the state it leads to then takes an eventless transition.
+   * 
+   * @param machine 
+   * @param path 
+   * @param segments 
+   * @returns 
+   */
+  protected static validateSegments(machine: AnyStateMachine, path: Path | SerializedPath, segments: Array<Segment | SerializedSegment>): PathValidation {
+    let state = machine.initialState;
+
+    for (let index = 0; index < segments.length; index++) {
+      const segment = segments[index];
+      const { event } = segment;
+      const expectedState = segment instanceof Segment ? segment.target : segment.state;
+
+      if (index > 0) {
+        if (!machine.getTransitionData(state, event)?.transitions.length)
+          return { path, valid: false, failedSegmentIndex: index, reason: 'event-not-accepted', expectedState, actualState: state };
+
+        state = machine.transition(state, event);
+      }
+
+      // Saved segments have no context, so only their state value can be compared
+      const expectedSegment = segment instanceof Segment
+        ? segment
+        : new Segment(machine, State.from(expectedState, state.context));
+
+      if (!expectedSegment.reachesState(state))
+        return { path, valid: false, failedSegmentIndex: index, reason: 'state-mismatch', expectedState, actualState: state };
+    }
+
+    return { path, valid: true, actualState: state };
+  }
+
+  /**
+   * Generate the next possible paths, using the strategy given in `options`.
+   * Generation stops early once `budget` is exhausted.
+   * 
+   * @param options 
+   * @param budget 
+   */
+  public async * generateNextPaths(options?: MakePathOptions, budget = new PathBudget(options)): AsyncGenerator<Path> {
+    if (options?.strategy === 'bfs')
+      yield* this.generateNextPathsBreadthFirst(options, budget);
+    else
+      yield* this.generateNextPathsDepthFirst(options, budget);
+  }
+
+  /**
+   * Generate the next possible paths, depth-first. Each path's next segments are
+   * generated when it is extended, and wait on a stack until their branch is explored.
+   * 
+   * @param options 
+   * @param budget 
+   */
+  public async * generateNextPathsDepthFirst(options?: MakePathOptions, budget = new PathBudget(options)): AsyncGenerator<Path> {
     // Get options with defaults
     const {
       maxLength = 10,
       filterSegment = Path.defaultSegmentFilter,
       filterPath = Path.defaultPathFilter,
-      eventSource,
+      constraints = [],
     } = options ?? {};
 
-    // Get the next possible segments
-    const nextSegments = await this.lastSegment?.generateNextSegments(eventSource) ?? [];
+    // Segments waiting to extend their paths. The last one is explored first.
+    const stack: Array<{ path: Path, segment: Segment }> = [];
+
+    const pushNextSegments = async (path: Path) => {
+      const nextSegments: Array<{ path: Path, segment: Segment }> = [];
+      for await (const segment of budget.iterate(await path.getNextSegments(options)))
+        nextSegments.push({ path, segment });
+
+      stack.push(...nextSegments.reverse());
+    };
+
+    await pushNextSegments(this);
 
-    // Make a path for each next segment that passes the filter
-    for await (const nextSegment of nextSegments) {
-      if (!filterSegment(nextSegment, this))
+    while (stack.length && !budget.isExhausted()) {
+      const { path, segment } = stack.pop()!;
+
+      budget.frontier = stack.length;
+      budget.countSegment(path.length);
+
+      if (!filterSegment(segment, path))
         continue;
 
-      const nextPath = new Path(this.machine, this.segments.concat(nextSegment));
+      const nextPath = new Path(path.machine, path.segments.concat(segment));
+
+      // If the path can no longer satisfy the constraints, don't go any further
+      if (!canSatisfyConstraints(constraints, nextPath))
+        continue;
 
       // If the path passes the filter, yield it
-      if (filterPath(nextPath))
+      if (filterPath(nextPath) && satisfiesConstraints(constraints, nextPath)) {
+        budget.countPath();
         yield nextPath;
+      }
 
-      // If we haven't reached the max length, make next paths for the next path
+      // If we haven't reached the max length, explore the next path's segments next
       if (!nextPath.isFinal() && nextPath.length < maxLength)
-        yield* nextPath.generateNextPaths(options);
+        await pushNextSegments(nextPath);
+    }
+  }
+
+  /**
+   * Generate the next possible paths, breadth-first. Every path is yielded
+   * before any path that is longer than it.
+   * 
+   * @param options 
+   * @param budget 
+   */
+  public async * generateNextPathsBreadthFirst(options?: MakePathOptions, budget = new PathBudget(options)): AsyncGenerator<Path> {
+    // Get options with defaults
+    const {
+      maxLength = 10,
+      filterSegment = Path.defaultSegmentFilter,
+      filterPath = Path.defaultPathFilter,
+      constraints = [],
+    } = options ?? {};
+
+    // Paths waiting to be extended, shortest first
+    const queue: Path[] = [this];
+
+    while (queue.length && !budget.isExhausted()) {
+      const path = queue.shift()!;
+      const nextSegments = await path.getNextSegments(options);
+
+      for await (const nextSegment of budget.iterate(nextSegments)) {
+        budget.frontier = queue.length;
+        budget.countSegment(path.length);
+
+        if (!filterSegment(nextSegment, path))
+          continue;
+
+        const nextPath = new Path(path.machine, path.segments.concat(nextSegment));
+
+        if (!canSatisfyConstraints(constraints, nextPath))
+          continue;
+
+        if (filterPath(nextPath) && satisfiesConstraints(constraints, nextPath)) {
+          budget.countPath();
+          yield nextPath;
+        }
+
+        if (!nextPath.isFinal() && nextPath.length < maxLength)
+          queue.push(nextPath);
+      }
     }
   }
 
+  /**
+   * Returns the segments that can follow the path, from the `StateGraph` in
+   * `options.graph` if there is one, or from the event source otherwise. The
+   * `context` and `normalizers` in `options` apply to the new segments; if they
+   * aren't given, the new segments share the last segment's options.
+   * 
+   * @param options 
+   * @returns 
+   */
+  public async getNextSegments(options?: MakePathOptions): Promise<Iterable<Segment> | AsyncIterable<Segment>> {
+    const { graph, eventSource, context, normalizers } = options ?? {};
+    const { lastSegment } = this;
+
+    if (graph) {
+      const stateGraph = graph === true
+        ? await StateGraph.forMachine(this.machine, options)
+        : graph;
+
+      return stateGraph.getNextSegments(lastSegment);
+    }
+
+    if (!lastSegment)
+      return [];
+
+    const segmentOptions: SegmentOptions = { ...lastSegment.options };
+    if (context !== undefined)
+      segmentOptions.context = context;
+    if (normalizers !== undefined)
+      segmentOptions.normalizers = normalizers;
+
+    return lastSegment.generateNextSegments(eventSource, this, segmentOptions);
+  }
+
   /**
    * The default segment filter. This filter excludes segments that are already
    * in the path.
@@ -207,10 +1005,21 @@ export class Path {
   }
 
   /**
-   * The description of the final state of the path.
+   * The description of the final state of the path. This is its `StateValue`, and
+   * its context if context is part of the state's identity.
    */
   public get targetDescription() {
-    return JSON.stringify(this.target);
+    return this.lastSegment?.targetKey ?? JSON.stringify(this.target);
+  }
+
+  /**
+   * The probability of the path being taken, according to the `EventSource` that
+   * generated it. This is the product of the probabilities of each segment. If
+   * the `EventSource` has no weights, every event type is equally likely, and so
+   * is every event within a type.
+   */
+  public get probability() {
+    return this.segments.reduce((probability, segment) => probability * segment.probability, 1);
   }
 
   /**
@@ -235,6 +1044,38 @@ export class Path {
   }
 
 
+  /**
+   * Check whether the path can still be replayed on the given machine. Each
+   * segment's event is replayed in turn, and the first segment whose event is no
+   * longer accepted, or whose state no longer matches, is reported.
+   * 
+   * @param machine Defaults to the path's own machine.
+   * @returns 
+   * 
+   * @example
+   * ```ts
+   * const result = path.validate(updatedMachine);
+   * 
+   * if (!result.valid)
+   *   console.log(`Segment ${result.failedSegmentIndex} failed: ${result.reason}`);
+   * ```
+   */
+  public validate(machine: AnyStateMachine = this.machine): PathValidation {
+    return Path.validateSegments(machine, this, this.segments);
+  }
+
+  /**
+   * Returns the path in a form that can be saved as JSON.
+   * 
+   * @returns 
+   */
+  public toJSON(): SerializedPath {
+    return {
+      segments: this.segments.map(segment => segment.toJSON()),
+    };
+  }
+
+
   // Checks and comparisons
 
   /**
@@ -282,13 +1123,17 @@ export class Path {
 
   /**
    * Returns true if the path includes the given path. A path includes another
-   * path if it contains all of its segments.
+   * path if it contains all of its segments, in order and without gaps.
    * 
    * @param other 
    * @returns 
    */
   public includes(other: Path) {
-    return this.description.includes(other.description);
+    for (let start = 0; start + other.length <= this.length; start++)
+      if (other.segments.every((segment, index) => this.segments[start + index].matches(segment)))
+        return true;
+
+    return false;
   }
 
   /**
@@ -1,9 +1,74 @@
-import { isEmpty, omit } from "radash";
-import { AnyState, AnyStateMachine } from "xstate";
+import { isEmpty, isObject } from "radash";
+import { AnyEventObject, AnyState, AnyStateMachine, StateValue } from "xstate";
 import { EventSource } from "@/lib/event-source";
+import { parseDelayedEventType } from "@/lib/events";
+import { PayloadNormalizerMap, normalizePayload } from "@/lib/normalizers";
+import { Path } from "@/lib/path";
 import { cache } from "@/lib/util";
 
 
+/**
+ * A `Segment`, in a form that can be saved as JSON.
+ */
+export type SerializedSegment = {
+  /**
+   * The event that caused the transition.
+   */
+  event: AnyEventObject;
+
+  /**
+   * The `StateValue` of the resulting state.
+   */
+  state: StateValue;
+
+  /**
+   * The probability of the segment, if it isn't `1`.
+   */
+  probability?: number;
+}
+
+
+/**
+ * Returns the part of a state's context that is part of its identity.
+ */
+export type ContextProjectionFn = (context: any, state: AnyState) => unknown;
+
+/**
+ * Options that control how segments are described and compared.
+ */
+export type SegmentOptions = {
+  /**
+   * Whether the state's context is part of its identity. If it is, two segments
+   * that reach the same state value with different context are different. `true`
+   * includes all of the context; a function includes only what it returns.
+   * Defaults to `false`.
+   * 
+   * @example
+   * ```ts
+   * // Only the number of items is remembered
+   * { context: (context) => ({ count: context.items.length }) }
+   * ```
+   */
+  context?: boolean | ContextProjectionFn;
+
+  /**
+   * Normalizers for event payloads, keyed by event type. Payloads are normalized
+   * before they are described, so they also apply to `matches` and deduplication.
+   * 
+   * @example
+   * ```ts
+   * {
+   *   normalizers: {
+   *     SUBMIT: ignoreKeys('timestamp'),
+   *     '**': sortKeys,
+   *   }
+   * }
+   * ```
+   */
+  normalizers?: PayloadNormalizerMap;
+}
+
+
 /**
  * A single segment of a path, representing an event and the resulting state. For example, if a 
  * `SUBMIT` event causes a transition to the state `submitted`, the segment would be `SUBMIT -> submitted`:
@@ -29,23 +94,36 @@ export class Segment {
    * 
    * @param machine The machine used to `transition` between states.
    * @param state The target state. Defaults to the machine's `initialState`.
+   * @param probability The probability of this segment being taken from the previous
+   * state, according to the `EventSource` that generated it. Defaults to `1`.
+   * @param options How the segment is described and compared. Segments generated
+   * from this one share its options.
    * 
    * @example
    * 
    * ```ts
    * const segment = new Segment(machine);
    * console.log(segment.description);      // "xstate.init -> <initial state>"
+   * 
+   * const withContext = new Segment(machine, machine.initialState, 1, { context: true });
+   * console.log(withContext.description);  // "xstate.init -> <initial state> {"count":0}"
    * ```
    */
   public constructor(
     public readonly machine: AnyStateMachine,
     public readonly state: AnyState = machine.initialState,
+    public readonly probability: number = 1,
+    public readonly options: SegmentOptions = {},
   ) { }
 
   /**
    * Generates all possible segments that can follow this segment.
    * 
    * @param eventSource 
+   * @param path The path that ends with this segment, if there is one. It is passed
+   * on to the event source.
+   * @param options How the next segments are described and compared. Defaults to
+   * this segment's options.
    * 
    * @example
    * ```ts
@@ -57,14 +135,16 @@ export class Segment {
    * ```
    * 
    */
-  public async * generateNextSegments(eventSource: EventSource = new EventSource()) {
+  public async * generateNextSegments(eventSource: EventSource = new EventSource(), path?: Path, options: SegmentOptions = this.options) {
     const fromState = this.state;
 
-    if (!fromState.done)
-      for (const event of eventSource.generateNextEvents(fromState)) {
-        const nextState = this.machine.transition(fromState, event);
-        yield new Segment(this.machine, nextState);
-      }
+    if (fromState.done)
+      return;
+
+    for await (const { event, probability } of eventSource.generateWeightedNextEvents(fromState, path)) {
+      const nextState = this.machine.transition(fromState, event);
+      yield new Segment(this.machine, nextState, probability, options);
+    }
   }
 
 
@@ -82,17 +162,26 @@ export class Segment {
   }
 
   /**
-   * A description of the segment's `event`. Includes the event type and any data.
+   * A description of the segment's `event`. Includes the event type and any data,
+   * after applying the segment's payload normalizers. Delayed transitions are
+   * described by their delay.
    * 
    * @example
    * ```ts
    * segment.eventDescription;   // "SUBMIT { data: ... }"
+   * delayedSegment.eventDescription;   // "wait 3000ms"
    * ```
    */
   @cache
   public get eventDescription() {
-    const eventData = omit(this.event, ['type']);
-    const hasData = !isEmpty(eventData);
+    const delayed = parseDelayedEventType(this.event.type);
+    if (delayed)
+      return /^\d+$/.test(delayed.delay)
+        ? `wait ${delayed.delay}ms`
+        : `wait ${delayed.delay}`;
+
+    const eventData = normalizePayload(this.event, this.options.normalizers);
+    const hasData = eventData !== undefined && !(isObject(eventData) && isEmpty(eventData));
 
     if (hasData)
       return `${this.event.type} ${JSON.stringify(eventData)}`;
@@ -101,19 +190,69 @@ export class Segment {
   }
 
   /**
-   * A description of the segment's `state`.
+   * A description of the segment's `state`. If context is part of the state's
+   * identity, it is included.
    * 
    * @example
    * ```ts
    * segment.stateDescription;   // "submitted"
+   * segmentWithContext.stateDescription;   // "submitted {"attempts":2}"
    * ```
    */
   @cache
   public get stateDescription() {
     const stateStrings = this.state.toStrings();
-    return stateStrings
+    const valueDescription = stateStrings
       .filter(str => !stateStrings.find(s => s.startsWith(str + '.')))
       .join(', ');
+
+    return this.contextDescription !== undefined
+      ? `${valueDescription} ${this.contextDescription}`
+      : valueDescription;
+  }
+
+  /**
+   * A description of the part of the state's context that is part of its identity,
+   * or `undefined` if context isn't part of it.
+   * 
+   * @example
+   * ```ts
+   * segment.contextDescription;   // undefined
+   * segmentWithContext.contextDescription;   // "{"attempts":2}"
+   * ```
+   */
+  @cache
+  public get contextDescription() {
+    return this.describeContext(this.state);
+  }
+
+  /**
+   * A key that identifies the target state: its `StateValue`, and its context if
+   * context is part of the state's identity.
+   * 
+   * @example
+   * ```ts
+   * segment.targetKey;   // '"submitted"'
+   * segmentWithContext.targetKey;   // '"submitted" {"attempts":2}'
+   * ```
+   */
+  @cache
+  public get targetKey() {
+    return this.getStateKey(this.state);
+  }
+
+  /**
+   * A key that identifies the segment up to similarity: its event type and its
+   * `targetKey`. Similar segments have the same `similarityKey`.
+   * 
+   * @example
+   * ```ts
+   * segment.similarityKey;   // 'SUBMIT -> "submitted"'
+   * ```
+   */
+  @cache
+  public get similarityKey() {
+    return `${this.event.type} -> ${this.targetKey}`;
   }
 
   /**
@@ -195,7 +334,7 @@ export class Segment {
    * ```
    */
   public hasSameTarget(other: Segment) {
-    return JSON.stringify(this.target) === JSON.stringify(other.target);
+    return this.targetKey === other.targetKey;
   }
 
   /**
@@ -219,7 +358,8 @@ export class Segment {
   }
 
   /**
-   * Compares the final states of the segments. Returns true if they are equal.
+   * Compares the segment's final state to the given state. Returns true if they
+   * are equal. If context is part of the state's identity, it is compared too.
    *  
    * @param other
    * @returns
@@ -231,7 +371,27 @@ export class Segment {
    * firstSegment.reachesState(submittedState);   // true
    */
   public reachesState(state: AnyState) {
-    return JSON.stringify(this.target) === JSON.stringify(state.value);
+    return this.targetKey === this.getStateKey(state);
+  }
+
+  /**
+   * Returns the segment in a form that can be saved as JSON. The full state
+   * isn't saved; it can be rebuilt by replaying the events with `Path.fromJSON`.
+   * 
+   * @returns 
+   * 
+   * @example
+   * ```ts
+   * segment.toJSON();   // { event: { type: "SUBMIT" }, state: "submitted" }
+   * ```
+   */
+  public toJSON(): SerializedSegment {
+    const serialized: SerializedSegment = { event: this.event, state: this.target };
+
+    if (this.probability !== 1)
+      serialized.probability = this.probability;
+
+    return serialized;
   }
 
   /**
@@ -249,4 +409,42 @@ export class Segment {
   public isFinal() {
     return this.state.done || this.state.nextEvents.length === 0;
   }
+
+  /**
+   * @internal
+   * 
+   * Returns a key that identifies the given state, according to the segment's options.
+   * 
+   * @param state 
+   * @returns 
+   */
+  protected getStateKey(state: AnyState) {
+    const valueKey = JSON.stringify(state.value);
+    const contextDescription = this.describeContext(state);
+
+    return contextDescription !== undefined
+      ? `${valueKey} ${contextDescription}`
+      : valueKey;
+  }
+
+  /**
+   * @internal
+   * 
+   * Describes the part of the given state's context that is part of its identity.
+   * 
+   * @param state 
+   * @returns 
+   */
+  protected describeContext(state: AnyState) {
+    const { context } = this.options;
+
+    if (!context)
+      return undefined;
+
+    const projected = typeof context === 'function'
+      ? context(state.context, state)
+      : state.context;
+
+    return JSON.stringify(projected) ?? 'undefined';
+  }
 }
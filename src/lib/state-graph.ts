@@ -0,0 +1,395 @@
+import { AnyState, AnyStateMachine } from "xstate";
+import { EventSource } from "@/lib/event-source";
+import { Segment, SegmentOptions } from "@/lib/segment";
+
+
+/**
+ * Options for `StateGraph.build` and `StateGraph.forMachine`. The `SegmentOptions`
+ * decide which states are the same node.
+ */
+export type StateGraphOptions = SegmentOptions & {
+  /**
+   * An `EventSource` that is used to generate the events sent from each state.
+   * It is not given a path, so events can only depend on the state.
+   */
+  eventSource?: EventSource;
+
+  /**
+   * The maximum number of nodes to explore. States beyond this are left out, and
+   * the graph is marked as incomplete. Defaults to `10000`.
+   */
+  maxNodes?: number;
+
+  /**
+   * The maximum number of transitions from the initial state to explore. States
+   * at this depth are added, but their transitions aren't explored. Defaults to
+   * no limit.
+   */
+  maxDepth?: number;
+}
+
+/**
+ * A distinct state in a `StateGraph`.
+ */
+export type StateGraphNode = {
+  /**
+   * The state's identity, as in `Segment.targetKey`.
+   */
+  id: string;
+
+  /**
+   * The first state found with this identity.
+   */
+  state: AnyState;
+
+  /**
+   * The segment that first reached the state.
+   */
+  segment: Segment;
+}
+
+/**
+ * A transition between two nodes in a `StateGraph`.
+ */
+export type StateGraphEdge = {
+  /**
+   * The source node's id and the event's description.
+   */
+  id: string;
+
+  source: string;
+  target: string;
+
+  /**
+   * The segment the transition produces. The same segment is shared by every
+   * path that takes the transition.
+   */
+  segment: Segment;
+}
+
+
+/**
+ * The states a machine can reach, and the transitions between them. The state
+ * space is explored once, with each state memoized by its identity
+ * (`Segment.targetKey`) and each transition by its event description. Path
+ * generation can then walk the graph instead of calling `machine.transition`
+ * again for every path.
+ *
+ * States with the same identity share a node, and each edge keeps the segment
+ * it was first found with. If context isn't part of the identity, every path
+ * that takes an edge gets that segment's state and context, whatever the context
+ * was on the way there, and transitions that depend on context are only explored
+ * for the first context found. If transitions depend on context, include that
+ * context in the identity with the `context` option.
+ *
+ * @example
+ * ```ts
+ * const graph = await StateGraph.forMachine(machine);
+ *
+ * graph.nodes.size;                  // 6
+ * graph.getOutDegree('"form"');      // 2
+ * graph.getSuccessors('"form"');     // ['"submitted"', '{"form":"error"}']
+ * ```
+ */
+export class StateGraph {
+  protected static readonly graphs = new WeakMap<AnyStateMachine, { options: StateGraphOptions, graph: Promise<StateGraph> }>();
+
+  /**
+   * The nodes of the graph, by id, in the order they were found.
+   */
+  public readonly nodes = new Map<string, StateGraphNode>();
+
+  /**
+   * The edges of the graph, by id, in the order they were found.
+   */
+  public readonly edges = new Map<string, StateGraphEdge>();
+
+  /**
+   * Whether every state reachable within `maxDepth` was explored, or `maxNodes`
+   * was reached first.
+   */
+  public complete = true;
+
+  protected readonly outEdges = new Map<string, StateGraphEdge[]>();
+  protected readonly inEdges = new Map<string, StateGraphEdge[]>();
+
+  protected constructor(
+    public readonly machine: AnyStateMachine,
+    public readonly options: StateGraphOptions = {},
+  ) { }
+
+  /**
+   * Explore the machine and build its graph.
+   *
+   * @param machine
+   * @param options
+   * @returns
+   *
+   * @example
+   * ```ts
+   * const graph = await StateGraph.build(machine, { eventSource, context: true });
+   * ```
+   */
+  public static async build(machine: AnyStateMachine, options: StateGraphOptions = {}) {
+    const graph = new StateGraph(machine, options);
+    await graph.explore();
+
+    return graph;
+  }
+
+  /**
+   * Returns the graph for the machine, building it the first time it's asked for.
+   * Only the last graph built for each machine is cached, and only reused if
+   * it was built with the same `eventSource`, `context`, `normalizers`,
+   * `maxNodes` and `maxDepth`. These are compared by reference, so pass the same objects each
+   * time to reuse the graph.
+   *
+   * @param machine
+   * @param options
+   * @returns
+   *
+   * @example
+   * ```ts
+   * const graph = await StateGraph.forMachine(machine);
+   * graph === await StateGraph.forMachine(machine);   // true
+   * ```
+   */
+  public static forMachine(machine: AnyStateMachine, options: StateGraphOptions = {}) {
+    const cached = StateGraph.graphs.get(machine);
+
+    if (
+      cached &&
+      cached.options.eventSource === options.eventSource &&
+      cached.options.context === options.context &&
+      cached.options.normalizers === options.normalizers &&
+      cached.options.maxNodes === options.maxNodes &&
+      cached.options.maxDepth === options.maxDepth
+    )
+      return cached.graph;
+
+    const { eventSource, context, normalizers, maxNodes, maxDepth } = options;
+    const graphOptions = { eventSource, context, normalizers, maxNodes, maxDepth };
+    const graph = StateGraph.build(machine, graphOptions);
+    StateGraph.graphs.set(machine, { options: graphOptions, graph });
+
+    return graph;
+  }
+
+  /**
+   * The node for the machine's initial state.
+   */
+  public get initialNode() {
+    return this.nodes.values().next().value as StateGraphNode;
+  }
+
+  /**
+   * Returns the node with the same identity as the given state or segment, if
+   * there is one.
+   *
+   * @param stateOrSegment
+   * @returns
+   */
+  public getNode(stateOrSegment: AnyState | Segment) {
+    const { context, normalizers } = this.options;
+    const segment = stateOrSegment instanceof Segment
+      ? stateOrSegment
+      : new Segment(this.machine, stateOrSegment, 1, { context, normalizers });
+
+    return this.nodes.get(segment.targetKey);
+  }
+
+  /**
+   * Returns the edges leaving the node.
+   *
+   * @param id
+   * @returns
+   */
+  public getOutEdges(id: string): StateGraphEdge[] {
+    return this.outEdges.get(id) ?? [];
+  }
+
+  /**
+   * Returns the edges entering the node.
+   *
+   * @param id
+   * @returns
+   */
+  public getInEdges(id: string): StateGraphEdge[] {
+    return this.inEdges.get(id) ?? [];
+  }
+
+  /**
+   * Returns the number of edges leaving the node.
+   *
+   * @param id
+   * @returns
+   */
+  public getOutDegree(id: string) {
+    return this.getOutEdges(id).length;
+  }
+
+  /**
+   * Returns the number of edges entering the node.
+   *
+   * @param id
+   * @returns
+   */
+  public getInDegree(id: string) {
+    return this.getInEdges(id).length;
+  }
+
+  /**
+   * Returns the ids of the nodes that can be reached from the node in one step.
+   *
+   * @param id
+   * @returns
+   */
+  public getSuccessors(id: string) {
+    return Array.from(new Set(this.getOutEdges(id).map(edge => edge.target)));
+  }
+
+  /**
+   * Returns the ids of the nodes that can reach the node in one step.
+   *
+   * @param id
+   * @returns
+   */
+  public getPredecessors(id: string) {
+    return Array.from(new Set(this.getInEdges(id).map(edge => edge.source)));
+  }
+
+  /**
+   * Returns the ids of every node that can reach any of the given nodes, including
+   * the nodes themselves.
+   *
+   * @param ids
+   * @returns
+   *
+   * @example
+   * ```ts
+   * graph.getNodesReaching(['"submitted"']);   // Set { '"submitted"', '"form"' }
+   * ```
+   */
+  public getNodesReaching(ids: Iterable<string>) {
+    const reaching = new Set(ids);
+    const queue = Array.from(reaching);
+
+    while (queue.length) {
+      const id = queue.shift()!;
+
+      for (const predecessor of this.getPredecessors(id))
+        if (!reaching.has(predecessor)) {
+          reaching.add(predecessor);
+          queue.push(predecessor);
+        }
+    }
+
+    return reaching;
+  }
+
+  /**
+   * Returns the graph's adjacency list: the successors of every node.
+   *
+   * @returns
+   *
+   * @example
+   * ```ts
+   * graph.getAdjacency();
+   * // Map { '"form"' => ['"submitted"', '{"form":"error"}'], '"submitted"' => [] }
+   * ```
+   */
+  public getAdjacency() {
+    return new Map(Array.from(this.nodes.keys(), id => [id, this.getSuccessors(id)]));
+  }
+
+  /**
+   * Returns the segments that can follow the given segment. Used by path
+   * generation in place of `Segment.generateNextSegments`.
+   *
+   * @param segment
+   * @returns
+   */
+  public getNextSegments(segment?: Segment) {
+    return segment
+      ? this.getOutEdges(segment.targetKey).map(edge => edge.segment)
+      : [];
+  }
+
+
+  /**
+   * @internal
+   *
+   * Explores every state reachable from the machine's initial state, breadth-first.
+   */
+  protected async explore() {
+    const {
+      eventSource = new EventSource(),
+      maxNodes = 10_000,
+      maxDepth = Infinity,
+      context,
+      normalizers,
+    } = this.options;
+
+    const initialSegment = new Segment(this.machine, this.machine.initialState, 1, { context, normalizers });
+    const queue = [{ node: this.addNode(initialSegment), depth: 0 }];
+
+    while (queue.length) {
+      const { node, depth } = queue.shift()!;
+
+      if (depth >= maxDepth)
+        continue;
+
+      for await (const segment of node.segment.generateNextSegments(eventSource)) {
+        const id = `${node.id} ${segment.eventDescription}`;
+
+        if (this.edges.has(id))
+          continue;
+
+        if (!this.nodes.has(segment.targetKey)) {
+          if (this.nodes.size >= maxNodes) {
+            this.complete = false;
+            continue;
+          }
+
+          queue.push({ node: this.addNode(segment), depth: depth + 1 });
+        }
+
+        this.addEdge({ id, source: node.id, target: segment.targetKey, segment });
+      }
+    }
+  }
+
+  /**
+   * @internal
+   *
+   * Adds a node for the segment's target state.
+   *
+   * @param segment
+   * @returns
+   */
+  protected addNode(segment: Segment) {
+    const node = { id: segment.targetKey, state: segment.state, segment };
+    this.nodes.set(node.id, node);
+
+    return node;
+  }
+
+  /**
+   * @internal
+   *
+   * Adds an edge, and records it in the adjacency lists of both of its nodes.
+   *
+   * @param edge
+   */
+  protected addEdge(edge: StateGraphEdge) {
+    this.edges.set(edge.id, edge);
+
+    if (!this.outEdges.has(edge.source))
+      this.outEdges.set(edge.source, []);
+    if (!this.inEdges.has(edge.target))
+      this.inEdges.set(edge.target, []);
+
+    this.outEdges.get(edge.source)!.push(edge);
+    this.inEdges.get(edge.target)!.push(edge);
+  }
+}
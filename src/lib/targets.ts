@@ -0,0 +1,42 @@
+import { AnyState, StateValue } from "xstate";
+
+/**
+ * Targets and callback map keys starting with this prefix match states by tag,
+ * e.g. `tag:loading`.
+ */
+export const TAG_PREFIX = 'tag:';
+
+/**
+ * A description of the states to look for:
+ * 
+ * - a `StateValue`, or a string for `State.matches`, e.g. `checkout.paymentFailed`
+ * - a tag, prefixed with `tag:`, e.g. `tag:error`
+ * - a predicate on the state
+ */
+export type StateTarget = StateValue | ((state: AnyState) => boolean);
+
+
+/**
+ * Returns true if the state matches the target.
+ * 
+ * @param state
+ * @param target
+ * @returns
+ * 
+ * @example
+ * ```ts
+ * matchesTarget(state, 'checkout.paymentFailed');   // true
+ * matchesTarget(state, { checkout: 'paymentFailed' });   // true
+ * matchesTarget(state, 'tag:error');   // true
+ * matchesTarget(state, state => state.context.attempts > 2);   // false
+ * ```
+ */
+export function matchesTarget(state: AnyState, target: StateTarget): boolean {
+  if (typeof target === 'function')
+    return target(state);
+
+  if (typeof target === 'string' && target.startsWith(TAG_PREFIX))
+    return state.hasTag(target.slice(TAG_PREFIX.length));
+
+  return state.matches(target);
+}
@@ -1,17 +1,50 @@
-import { PathRunner, TransitionCallbackMap } from './path-runner';
+import { PathRunner, PathRunnerOptions, TransitionCallbackMap } from './path-runner';
+import { TAG_PREFIX } from './targets';
+import { isGlobPattern, matchesGlob } from './util';
 import { AnyState } from 'xstate';
 
 
+/**
+ * Options for `TestRunner`.
+ */
+export type TestRunnerOptions<TContext extends any[] = []> = PathRunnerOptions<TContext> & {
+  /**
+   * Whether to run the `meta.test` functions of the active state nodes, as in
+   * `@xstate/test`. They are called with the context arguments passed to `run`,
+   * followed by the state, so `meta.test(testContext, state)` functions written
+   * for `@xstate/test` work unchanged. Defaults to `false`.
+   */
+  metaTests?: boolean;
+}
+
+
+/**
+ * Runs paths, calling `eventCallbacks` for the event that caused each transition and
+ * `stateCallbacks` for each state that was reached.
+ *
+ * Callbacks are keyed by event type or state id, as in `state.toStrings()`. Keys can
+ * also be glob patterns (`form.*`, `form.**`, `done.invoke.*`), and state callbacks
+ * can match by tag (`tag:loading`). Each callback is called at most once per transition.
+ */
 export class TestRunner<TContext extends any[]> extends PathRunner<TContext> {
+  protected readonly metaTests: boolean;
+
   constructor(
-    protected readonly eventCallbacks: TransitionCallbackMap<TContext>, 
-    protected readonly stateCallbacks: TransitionCallbackMap<TContext>
-  ) { super() }
+    protected readonly eventCallbacks: TransitionCallbackMap<TContext>,
+    protected readonly stateCallbacks: TransitionCallbackMap<TContext>,
+    options: TestRunnerOptions<TContext> = {}
+  ) {
+    super(options);
+    this.metaTests = options.metaTests ?? false;
+  }
 
 
   protected async onTransition(currentState: AnyState, ...context: TContext) {
     await this.runEventCallbacks(currentState, ...context);
     await this.runStateCallbacks(currentState, ...context);
+
+    if (this.metaTests)
+      await this.runMetaTests(currentState, ...context);
   }
 
   protected async runEventCallbacks(state: AnyState, ...context: TContext) {
@@ -19,12 +52,36 @@ export class TestRunner<TContext extends any[]> extends PathRunner<TContext> {
     const eventCallback = this.eventCallbacks[event.type];
 
     await eventCallback?.(state, ...context);
+
+    for (const [pattern, patternCallback] of Object.entries(this.eventCallbacks))
+      if (isGlobPattern(pattern) && matchesGlob(pattern, event.type))
+        await patternCallback(state, ...context);
   }
 
   protected async runStateCallbacks(state: AnyState, ...context: TContext) {
-    for (const stateValue of state.toStrings()) {
+    const stateValues = state.toStrings();
+
+    for (const stateValue of stateValues) {
       const stateCallback = this.stateCallbacks[stateValue];
       await stateCallback?.(state, ...context);
     }
+
+    for (const [key, keyCallback] of Object.entries(this.stateCallbacks)) {
+      const matches = key.startsWith(TAG_PREFIX)
+        ? state.hasTag(key.slice(TAG_PREFIX.length))
+        : isGlobPattern(key) && stateValues.some(stateValue => matchesGlob(key, stateValue));
+
+      if (matches)
+        await keyCallback(state, ...context);
+    }
+  }
+
+  protected async runMetaTests(state: AnyState, ...context: TContext) {
+    for (const node of state.configuration) {
+      const test = node.meta?.test;
+
+      if (typeof test === 'function')
+        await test(...context, state);
+    }
   }
-}
\ No newline at end of file
+}
@@ -0,0 +1,156 @@
+/**
+ * A combination of values (by index) at the given positions of a row.
+ */
+type Tuple = {
+  positions: number[];
+  indices: number[];
+}
+
+
+/**
+ * Build a covering array from the given lists of values: a set of rows, each
+ * taking one value from every list, such that every combination of values from
+ * any `strength` lists appears in at least one row. With `strength = 2`
+ * (pairwise), every pair of values is covered with far fewer rows than the full
+ * cartesian product.
+ *
+ * Rows are built greedily, so the result is small but not always minimal. The
+ * same input always produces the same rows. If `strength` is at least the number
+ * of lists, the full cartesian product is returned.
+ *
+ * @param valueLists the values for each position in a row
+ * @param strength the size of the combinations to cover. Defaults to `2`.
+ * @returns an array of rows
+ *
+ * @example
+ * ```ts
+ * const rows = coveringArray([
+ *   ['small', 'large'],
+ *   ['red', 'blue'],
+ *   [true, false],
+ * ]);
+ *
+ * console.log(rows.length);   // 4, instead of 8 for the full product
+ * ```
+ */
+export function coveringArray<T>(valueLists: T[][], strength: number = 2): T[][] {
+  const sizes = valueLists.map(values => values.length);
+  const toValues = (row: number[]) => row.map((index, position) => valueLists[position][index]);
+
+  if (sizes.some(size => size === 0))
+    return [];
+
+  if (strength >= sizes.length)
+    return product(sizes).map(toValues);
+
+  // Every combination of `strength` positions, and the value combinations they still need
+  const positionSets = combinations(sizes.map((_, position) => position), Math.max(strength, 1));
+  const uncovered = new Map<string, Tuple>();
+
+  for (const positions of positionSets)
+    for (const indices of product(positions.map(position => sizes[position])))
+      uncovered.set(tupleKey(positions, indices), { positions, indices });
+
+  const rows: number[][] = [];
+
+  while (uncovered.size) {
+    const row: (number | undefined)[] = new Array(sizes.length).fill(undefined);
+
+    // Start from the first uncovered tuple, then fill in the other positions one by one
+    const seed = uncovered.values().next().value as Tuple;
+    seed.positions.forEach((position, i) => row[position] = seed.indices[i]);
+
+    for (let position = 0; position < sizes.length; position++) {
+      if (row[position] !== undefined)
+        continue;
+
+      let bestIndex = 0;
+      let bestCount = -1;
+
+      for (let index = 0; index < sizes[position]; index++) {
+        row[position] = index;
+        const count = countCovered(row, positionSets, uncovered, position);
+
+        if (count > bestCount) {
+          bestIndex = index;
+          bestCount = count;
+        }
+      }
+
+      row[position] = bestIndex;
+    }
+
+    const completeRow = row as number[];
+    for (const positions of positionSets)
+      uncovered.delete(tupleKey(positions, positions.map(position => completeRow[position])));
+
+    rows.push(completeRow);
+  }
+
+  return rows.map(toValues);
+}
+
+
+/**
+ * Returns the number of uncovered tuples that include `position` and that the
+ * partial row already covers.
+ *
+ * @param row
+ * @param positionSets
+ * @param uncovered
+ * @param position
+ * @returns
+ */
+function countCovered(row: (number | undefined)[], positionSets: number[][], uncovered: Map<string, unknown>, position: number) {
+  let count = 0;
+
+  for (const positions of positionSets) {
+    if (!positions.includes(position) || positions.some(p => row[p] === undefined))
+      continue;
+
+    if (uncovered.has(tupleKey(positions, positions.map(p => row[p]!))))
+      count++;
+  }
+
+  return count;
+}
+
+/**
+ * Returns a key for a combination of values at the given positions.
+ *
+ * @param positions
+ * @param indices
+ * @returns
+ */
+function tupleKey(positions: number[], indices: number[]) {
+  return positions.map((position, i) => `${position}:${indices[i]}`).join(',');
+}
+
+/**
+ * Returns every combination of `size` items, in order.
+ *
+ * @param items
+ * @param size
+ * @returns
+ */
+function combinations<T>(items: T[], size: number): T[][] {
+  if (size === 0)
+    return [[]];
+
+  return items.flatMap((item, i) =>
+    combinations(items.slice(i + 1), size - 1).map(rest => [item, ...rest])
+  );
+}
+
+/**
+ * Returns every combination of indices for lists of the given sizes.
+ *
+ * @param sizes
+ * @returns
+ */
+function product(sizes: number[]): number[][] {
+  return sizes.reduce<number[][]>(
+    (rows, size) => rows.flatMap(row => Array.from({ length: size }, (_, index) => [...row, index])),
+    [[]]
+  );
+}
@@ -0,0 +1,50 @@
+
+/**
+ * Returns true if the string contains glob wildcards.
+ * 
+ * @param pattern
+ * @returns
+ * 
+ * @example
+ * ```ts
+ * isGlobPattern('form.*');      // true
+ * isGlobPattern('form.input');  // false
+ * ```
+ */
+export function isGlobPattern(pattern: string): boolean {
+  return pattern.includes('*');
+}
+
+
+/**
+ * Returns true if `value` matches the glob `pattern`. The value is split into
+ * parts by `.`, as in state ids and event types: `*` matches anything within a
+ * single part, and `**` matches any number of parts.
+ * 
+ * @param pattern
+ * @param value
+ * @returns
+ * 
+ * @example
+ * ```ts
+ * matchesGlob('form.*', 'form.input');          // true
+ * matchesGlob('form.*', 'form.input.focused');  // false
+ * matchesGlob('form.**', 'form.input.focused'); // true
+ * matchesGlob('done.invoke.*', 'done.invoke.fetchUser'); // true
+ * ```
+ */
+export function matchesGlob(pattern: string, value: string): boolean {
+  const source = pattern
+    .split(/(\*\*|\*)/)
+    .map(part => {
+      if (part === '**')
+        return '.*';
+      if (part === '*')
+        return '[^.]*';
+
+      return part.replace(/[.+?^${}()|[\]\\]/g, '\\$&');
+    })
+    .join('');
+
+  return new RegExp(`^${source}$`).test(value);
+}
@@ -1,3 +1,8 @@
 export * from './cache';
+export * from './covering-array';
 export * from './cross-merge';
 export * from './generators';
+export * from './glob';
+export * from './random';
+export * from './timeout';
+export * from './trie';
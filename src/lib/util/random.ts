@@ -0,0 +1,93 @@
+
+/**
+ * A function that returns a pseudo-random number in the range [0, 1).
+ */
+export type RandomFn = () => number;
+
+
+/**
+ * Create a seeded pseudo-random number generator. The same seed always produces
+ * the same sequence of numbers.
+ * 
+ * @param seed
+ * @returns a function that returns numbers in the range [0, 1)
+ * 
+ * @example
+ * ```ts
+ * const random = seededRandom(42);
+ * 
+ * console.log(random()); // 0.6011...
+ * console.log(random()); // 0.4482...
+ * ```
+ */
+export function seededRandom(seed: number): RandomFn {
+  // mulberry32
+  let state = seed >>> 0;
+
+  return () => {
+    state = (state + 0x6D2B79F5) >>> 0;
+
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+
+/**
+ * Pick a random item from an array.
+ * 
+ * @param items
+ * @param random
+ * @returns the picked item, or `undefined` if the array is empty
+ * 
+ * @example
+ * ```ts
+ * const random = seededRandom(42);
+ * 
+ * console.log(randomItem(['a', 'b', 'c'], random)); // 'b'
+ * ```
+ */
+export function randomItem<T>(items: T[], random: RandomFn = Math.random): T | undefined {
+  return items[Math.floor(random() * items.length)];
+}
+
+
+/**
+ * Pick a random item from an array, where each item's chance of being picked
+ * is proportional to its weight.
+ * 
+ * @param items
+ * @param weights the weight of each item, in the same order as `items`
+ * @param random
+ * @returns the picked item, or `undefined` if no item has a positive weight
+ * 
+ * @example
+ * ```ts
+ * const random = seededRandom(42);
+ * 
+ * console.log(weightedRandomItem(['a', 'b', 'c'], [1, 0, 3], random)); // 'c'
+ * ```
+ */
+export function weightedRandomItem<T>(items: T[], weights: number[], random: RandomFn = Math.random): T | undefined {
+  const total = weights.reduce((sum, weight) => sum + Math.max(weight, 0), 0);
+  let remaining = random() * total;
+  let lastPicked: T | undefined;
+
+  for (let i = 0; i < items.length; i++) {
+    const weight = Math.max(weights[i], 0);
+    if (weight <= 0)
+      continue;
+
+    if (remaining < weight)
+      return items[i];
+
+    remaining -= weight;
+    lastPicked = items[i];
+  }
+
+  // Guard against floating point rounding
+  return lastPicked;
+}
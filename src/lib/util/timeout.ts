@@ -0,0 +1,26 @@
+
+/**
+ * Wait for a promise, rejecting with the error from `onTimeout` if it doesn't
+ * settle within `ms` milliseconds. The promise itself isn't cancelled.
+ * 
+ * @param promise
+ * @param ms the timeout, in milliseconds. `Infinity` waits forever.
+ * @param onTimeout returns the error to reject with
+ * @returns
+ * 
+ * @example
+ * ```ts
+ * const response = await withTimeout(fetch(url), 1000, () => new Error('Request timed out'));
+ * ```
+ */
+export function withTimeout<T>(promise: Promise<T>, ms: number, onTimeout: () => Error): Promise<T> {
+  if (!Number.isFinite(ms))
+    return promise;
+
+  let timer: ReturnType<typeof setTimeout> | undefined;
+  const timeout = new Promise<never>((_, reject) => {
+    timer = setTimeout(() => reject(onTimeout()), Math.max(ms, 0));
+  });
+
+  return Promise.race([promise, timeout]).finally(() => clearTimeout(timer));
+}
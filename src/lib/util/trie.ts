@@ -0,0 +1,61 @@
+/**
+ * A node in a `SequenceTrie`.
+ */
+type TrieNode<T> = Map<T, TrieNode<T>>;
+
+
+/**
+ * A set of sequences, stored as a trie so that prefixes can be looked up in time
+ * proportional to their length.
+ *
+ * @example
+ * ```ts
+ * const trie = new SequenceTrie<string>();
+ * trie.add(['a', 'b', 'c']);
+ *
+ * trie.hasPrefix(['a', 'b']);   // true
+ * trie.hasPrefix(['b', 'c']);   // false
+ * ```
+ */
+export class SequenceTrie<T> {
+  protected readonly root: TrieNode<T> = new Map();
+
+  /**
+   * Add a sequence to the trie.
+   *
+   * @param sequence
+   */
+  public add(sequence: Iterable<T>) {
+    let node = this.root;
+
+    for (const item of sequence) {
+      let child = node.get(item);
+
+      if (!child) {
+        child = new Map();
+        node.set(item, child);
+      }
+
+      node = child;
+    }
+  }
+
+  /**
+   * Returns true if the sequence is a prefix of any sequence in the trie.
+   *
+   * @param sequence
+   * @returns
+   */
+  public hasPrefix(sequence: Iterable<T>) {
+    let node: TrieNode<T> | undefined = this.root;
+
+    for (const item of sequence) {
+      node = node.get(item);
+
+      if (!node)
+        return false;
+    }
+
+    return true;
+  }
+}
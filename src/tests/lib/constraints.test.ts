@@ -0,0 +1,130 @@
+import { describe, test, expect } from 'vitest';
+import { Path, atMostTimes, before, endsIn, eventually, never } from '@/lib';
+import { createMachine } from 'xstate';
+
+const testMachine = createMachine({
+  id: 'test-machine',
+  predictableActionArguments: true,
+  initial: 'cart',
+  states: {
+    cart: {
+      on: {
+        REVIEW: 'review',
+        PAY: 'paying',
+      }
+    },
+    review: {
+      on: {
+        PAY: 'paying',
+      }
+    },
+    paying: {
+      on: {
+        DECLINE: 'failed',
+        ACCEPT: 'paid',
+      }
+    },
+    failed: {
+      tags: ['error'],
+      on: {
+        RETRY: 'paying',
+        CANCEL: 'cancelled',
+      }
+    },
+    paid: { type: 'final' },
+    cancelled: { type: 'final' },
+  }
+});
+
+const eventTypes = (path: Path) => path.segments.slice(1).map(segment => segment.event.type).join(' ');
+
+
+describe('constraints', () => {
+  describe('eventually', () => {
+    test('only keeps paths that reach the state', async () => {
+      const paths = await Path.makePaths(testMachine, { constraints: [eventually('tag:error')] });
+
+      expect(paths.length).toBeGreaterThan(0);
+      expect(paths.every(path => path.segments.some(segment => segment.state.hasTag('error')))).toEqual(true);
+    });
+  });
+
+  describe('before', () => {
+    test('only keeps paths that reach the first state before the second', async () => {
+      const paths = await Path.makePaths(testMachine, { constraints: [before('review', 'paying')] });
+
+      expect(paths.map(eventTypes)).toEqual([
+        'REVIEW PAY DECLINE RETRY DECLINE RETRY ACCEPT',
+        'REVIEW PAY DECLINE RETRY DECLINE CANCEL',
+        'REVIEW PAY DECLINE RETRY ACCEPT',
+        'REVIEW PAY DECLINE CANCEL',
+        'REVIEW PAY ACCEPT',
+      ]);
+    });
+
+    test('prunes paths as soon as they break the constraint', async () => {
+      const explored: string[] = [];
+
+      await Path.makePaths(testMachine, {
+        constraints: [before('review', 'paying')],
+        filterSegment: (segment, path) => {
+          explored.push(eventTypes(new Path(testMachine, path.segments.concat(segment))));
+          return true;
+        },
+      });
+
+      expect(explored).toContain('PAY');
+      expect(explored).not.toContain('PAY ACCEPT');
+    });
+  });
+
+  describe('never', () => {
+    test('removes paths that take the event', async () => {
+      const paths = await Path.makePaths(testMachine, { constraints: [never('DECLINE')] });
+
+      expect(paths.map(eventTypes)).toEqual(['REVIEW PAY ACCEPT', 'PAY ACCEPT']);
+    });
+
+    test('accepts glob patterns and predicates', async () => {
+      const byPattern = await Path.makePaths(testMachine, { constraints: [never('*')] });
+      const byPredicate = await Path.makePaths(testMachine, { constraints: [never(event => event.type !== 'xstate.init' && event.type !== 'PAY' && event.type !== 'ACCEPT')] });
+
+      expect(byPattern).toEqual([]);
+      expect(byPredicate.map(eventTypes)).toEqual(['PAY ACCEPT']);
+    });
+  });
+
+  describe('atMostTimes', () => {
+    test('limits how many times an event is taken', async () => {
+      const paths = await Path.makePaths(testMachine, { constraints: [atMostTimes('DECLINE', 1)], maxLength: 20 });
+
+      expect(paths.length).toBeGreaterThan(0);
+      expect(paths.every(path => path.segments.filter(segment => segment.event.type === 'DECLINE').length <= 1)).toEqual(true);
+    });
+  });
+
+  describe('endsIn', () => {
+    test('only keeps paths that end in the state', async () => {
+      const paths = await Path.makePaths(testMachine, { constraints: [endsIn('cancelled'), atMostTimes('RETRY', 0)] });
+
+      expect(paths.map(eventTypes)).toEqual([
+        'REVIEW PAY DECLINE CANCEL',
+        'PAY DECLINE CANCEL',
+      ]);
+    });
+  });
+
+  test('combines constraints', async () => {
+    const paths = await Path.makePaths(testMachine, {
+      constraints: [never('REVIEW'), eventually('failed'), endsIn('paid'), atMostTimes('DECLINE', 1)],
+    });
+
+    expect(paths.map(eventTypes)).toEqual(['PAY DECLINE RETRY ACCEPT']);
+  });
+
+  test('applies to pathsTo', async () => {
+    const paths = await Path.pathsTo(testMachine, 'paid', { mode: 'shortest', constraints: [before('review', 'paying')] });
+
+    expect(paths.map(eventTypes)).toEqual(['REVIEW PAY ACCEPT']);
+  });
+});
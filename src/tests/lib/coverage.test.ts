@@ -0,0 +1,188 @@
+import { describe, test, expect } from 'vitest';
+import { Path, Segment, describeTransition, formatCoverageReport, getCoverageItems, getCoverageReport, getSegmentCoverage, getSegmentsCoverage } from '@/lib';
+import { assign, createMachine } from 'xstate';
+
+const testMachine = createMachine({
+  id: 'test-machine',
+  preserveActionOrder: true,
+  predictableActionArguments: true,
+  initial: 'start',
+  states: {
+    start: {
+      on: {
+        NEXT: 'end',
+        STAY: {}
+      }
+    },
+    end: {
+      type: 'final'
+    }
+  }
+});
+
+const alwaysMachine = createMachine({
+  id: 'm',
+  predictableActionArguments: true,
+  initial: 'idle',
+  context: { count: 0 },
+  states: {
+    idle: {
+      always: { target: 'timedOut', cond: context => context.count >= 1 },
+      on: {
+        INC: { actions: assign({ count: context => context.count + 1 }) },
+      }
+    },
+    timedOut: {
+      on: {
+        RETRY: { target: 'idle', actions: assign({ count: 0 }) },
+      }
+    }
+  }
+});
+
+
+describe('coverage', () => {
+  describe('describeTransition', () => {
+    const [nextTransition, stayTransition] = testMachine.getStateNodeById('test-machine.start').transitions;
+
+    test('describes the source, event and target', () => {
+      expect(describeTransition(nextTransition)).toEqual('test-machine.start: NEXT -> test-machine.end');
+    });
+
+    test('omits the target of targetless transitions', () => {
+      expect(describeTransition(stayTransition)).toEqual('test-machine.start: STAY');
+    });
+  });
+
+  describe('getCoverageItems', () => {
+    test('returns state ids', () => {
+      expect(getCoverageItems(testMachine, 'states')).toEqual(['test-machine', 'test-machine.start', 'test-machine.end']);
+    });
+
+    test('returns transitions', () => {
+      expect(getCoverageItems(testMachine, 'transitions')).toEqual([
+        'test-machine.start: NEXT -> test-machine.end',
+        'test-machine.start: STAY',
+      ]);
+    });
+
+    test('returns event types', () => {
+      expect(getCoverageItems(testMachine, 'events')).toEqual(['NEXT', 'STAY']);
+    });
+
+    test('leaves out eventless transitions', () => {
+      expect(getCoverageItems(alwaysMachine, 'transitions')).toEqual([
+        'm.idle: INC',
+        'm.timedOut: RETRY -> m.idle',
+      ]);
+    });
+
+    test('returns final state ids', () => {
+      expect(getCoverageItems(testMachine, 'finalStates')).toEqual(['test-machine.end']);
+    });
+  });
+
+  describe('getSegmentCoverage', () => {
+    const endState = testMachine.transition(testMachine.initialState, 'NEXT');
+    const segment = new Segment(testMachine, endState);
+
+    test('returns the active state nodes', () => {
+      expect(getSegmentCoverage(segment, 'states').sort()).toEqual(['test-machine', 'test-machine.end']);
+    });
+
+    test('returns the transitions taken', () => {
+      expect(getSegmentCoverage(segment, 'transitions')).toEqual(['test-machine.start: NEXT -> test-machine.end']);
+    });
+
+    test('returns the event type', () => {
+      expect(getSegmentCoverage(segment, 'events')).toEqual(['NEXT']);
+    });
+  });
+
+  describe('getSegmentsCoverage', () => {
+    test('returns the transitions taken by events followed by eventless transitions', () => {
+      const states = [alwaysMachine.initialState];
+      states.push(alwaysMachine.transition(states[0], 'INC'));
+      states.push(alwaysMachine.transition(states[1], 'RETRY'));
+      const segments = states.map(state => new Segment(alwaysMachine, state));
+
+      expect(segments[1].state.value).toEqual('timedOut');
+      expect(getSegmentsCoverage(segments, 'transitions')).toEqual(new Set([
+        'm.idle: INC',
+        'm.timedOut: RETRY -> m.idle',
+      ]));
+    });
+
+    test('returns the states passed through on eventless transitions', () => {
+      const checkMachine = createMachine({
+        id: 'm',
+        predictableActionArguments: true,
+        initial: 'idle',
+        states: {
+          idle: { on: { SUBMIT: 'check' } },
+          check: { always: 'done' },
+          done: { type: 'final' },
+        }
+      });
+      const states = [checkMachine.initialState];
+      states.push(checkMachine.transition(states[0], 'SUBMIT'));
+      const segments = states.map(state => new Segment(checkMachine, state));
+
+      expect(segments[1].state.value).toEqual('done');
+      expect(getSegmentsCoverage(segments, 'states')).toEqual(new Set(['m', 'm.idle', 'm.check', 'm.done']));
+    });
+  });
+
+  describe('getCoverageReport', () => {
+    test('reports covered and uncovered items', async () => {
+      const paths = await Path.makePaths(testMachine);
+
+      const report = getCoverageReport(testMachine, paths);
+
+      expect(report.states.uncovered).toEqual([]);
+      expect(report.finalStates.covered).toEqual(['test-machine.end']);
+      expect(report.transitions.covered).toEqual(['test-machine.start: NEXT -> test-machine.end']);
+      expect(report.transitions.uncovered).toEqual(['test-machine.start: STAY']);
+      expect(report.events.ratio).toEqual(0.5);
+    });
+
+    test('reports transitions into states with eventless transitions as covered', async () => {
+      const paths = await Path.makePaths(alwaysMachine, { filterPath: () => true });
+
+      const report = getCoverageReport(alwaysMachine, paths);
+
+      expect(report.transitions.uncovered).toEqual([]);
+      expect(report.transitions.covered).toEqual(['m.idle: INC', 'm.timedOut: RETRY -> m.idle']);
+      expect(formatCoverageReport(report)).toContain('transitions        2      2    100.0%');
+    });
+
+    test('reports everything as uncovered for no paths', () => {
+      const report = getCoverageReport(testMachine, []);
+
+      expect(report.states.covered).toEqual([]);
+      expect(report.states.ratio).toEqual(0);
+    });
+  });
+
+  describe('formatCoverageReport', () => {
+    test('formats the report as a table', async () => {
+      const paths = await Path.makePaths(testMachine);
+
+      const text = formatCoverageReport(getCoverageReport(testMachine, paths));
+
+      expect(text).toEqual([
+        'Criterion    Covered  Total  Coverage',
+        'states             3      3    100.0%',
+        'transitions        1      2     50.0%',
+        'events             1      2     50.0%',
+        'finalStates        1      1    100.0%',
+        '',
+        'Uncovered transitions:',
+        '  test-machine.start: STAY',
+        '',
+        'Uncovered events:',
+        '  STAY',
+      ].join('\n'));
+    });
+  });
+});
@@ -0,0 +1,152 @@
+import { afterAll, describe, test, expect, vi } from 'vitest';
+import { Path, PathRunError, TestFramework, TestRunner, describePaths, getTestName, selectPath } from '@/lib';
+import { createMachine } from 'xstate';
+
+const testMachine = createMachine({
+  id: 'test-machine',
+  preserveActionOrder: true,
+  predictableActionArguments: true,
+  initial: 'start',
+  states: {
+    start: {
+      on: {
+        NEXT: 'middle',
+        SKIP: 'end'
+      }
+    },
+    middle: {
+      on: {
+        NEXT: 'end'
+      }
+    },
+    end: {
+      type: 'final'
+    }
+  }
+});
+
+type RegisteredTest = {
+  name: string;
+  mode: 'run' | 'only' | 'skip';
+  fn: () => Promise<void>;
+}
+
+function makeFramework() {
+  const tests: RegisteredTest[] = [];
+  const suites: Array<void | Promise<void>> = [];
+  const register = (mode: RegisteredTest['mode']) => (name: string, fn: () => Promise<void>) => { tests.push({ name, mode, fn }) };
+
+  const framework: TestFramework = {
+    describe: vi.fn().mockImplementation((_, fn) => { suites.push(fn()) }),
+    it: Object.assign(register('run'), { only: register('only'), skip: register('skip') }),
+  };
+
+  // Waits for every describe block to finish registering its tests
+  const collect = () => Promise.all(suites);
+
+  return { framework, tests, collect };
+}
+
+// Registered with vitest itself, so the paths run as tests of this file. The
+// block checks that they ran once it has finished.
+const onRegisteredEnd = vi.fn();
+const vitestFramework: TestFramework = {
+  describe: (name, fn) => describe(name, async () => {
+    afterAll(() => expect(onRegisteredEnd).toHaveBeenCalledTimes(2));
+    await fn();
+  }),
+  it: test,
+};
+describePaths(testMachine, { name: 'describePaths with vitest', framework: vitestFramework }, () => (
+  new TestRunner({}, { end: onRegisteredEnd })
+));
+
+
+describe('describePaths', () => {
+  test('registers one test per path', async () => {
+    const { framework, tests, collect } = makeFramework();
+
+    describePaths(testMachine, { framework }, () => new TestRunner({}, {}));
+    await collect();
+
+    expect(framework.describe).toHaveBeenCalledWith('test-machine', expect.any(Function));
+    expect(tests.map(test => test.name)).toEqual([
+      'end via NEXT -> NEXT',
+      'end via SKIP',
+    ]);
+  });
+
+  test('registers matching tests with only and skip', async () => {
+    const { framework, tests, collect } = makeFramework();
+
+    describePaths(testMachine, {
+      framework,
+      only: { event: 'SKIP' },
+      skip: path => path.length > 2,
+    }, () => new TestRunner({}, {}));
+    await collect();
+
+    expect(tests.map(test => test.mode)).toEqual(['skip', 'only']);
+  });
+
+  test('registers tests for the given paths synchronously', () => {
+    const { framework, tests } = makeFramework();
+    const paths = [new Path(testMachine)];
+
+    describePaths(testMachine, { framework, paths }, () => new TestRunner({}, {}));
+
+    expect(tests.map(test => test.name)).toEqual(['start (initial state)']);
+  });
+
+  test('runs each path with a runner from the factory', async () => {
+    const { framework, tests, collect } = makeFramework();
+    const onEnd = vi.fn();
+
+    describePaths(testMachine, { framework }, () => new TestRunner({}, { end: onEnd }));
+    await collect();
+    for (const test of tests)
+      await test.fn();
+
+    expect(onEnd).toHaveBeenCalledTimes(2);
+  });
+
+  test('reports the segment that failed', async () => {
+    const { framework, tests, collect } = makeFramework();
+    const failure = new Error('middle failed');
+
+    describePaths(testMachine, { framework }, () => new TestRunner({}, {
+      middle: () => { throw failure; }
+    }));
+    await collect();
+
+    const error = await tests[0].fn().catch(error => error);
+
+    expect(error).toBeInstanceOf(PathRunError);
+    expect(error.segmentIndex).toEqual(1);
+    expect(error.segment.description).toEqual('NEXT -> middle');
+    expect(error.originalError).toBe(failure);
+    expect(error.message).toContain('NEXT -> middle');
+  });
+});
+
+describe('getTestName', () => {
+  test('names the initial path', () => {
+    expect(getTestName(new Path(testMachine))).toEqual('start (initial state)');
+  });
+});
+
+describe('selectPath', () => {
+  test('selects paths by target state', async () => {
+    const [path] = await Path.makePaths(testMachine);
+
+    expect(selectPath(path, { target: 'end' })).toEqual(true);
+    expect(selectPath(path, { target: ['middle', 'start'] })).toEqual(false);
+  });
+
+  test('selects paths by event type', async () => {
+    const [path] = await Path.makePaths(testMachine);
+
+    expect(selectPath(path, { event: 'NEXT' })).toEqual(true);
+    expect(selectPath(path, { event: 'SKIP' })).toEqual(false);
+  });
+});
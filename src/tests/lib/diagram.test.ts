@@ -0,0 +1,110 @@
+import { describe, test, expect } from 'vitest';
+import { Path, Segment, buildPathGraph, pathsToDot, pathsToMermaid } from '@/lib';
+import { createMachine } from 'xstate';
+
+const testMachine = createMachine({
+  id: 'test-machine',
+  preserveActionOrder: true,
+  predictableActionArguments: true,
+  initial: 'start',
+  states: {
+    start: {
+      on: {
+        NEXT: 'middle'
+      }
+    },
+    middle: {
+      on: {
+        BACK: 'start',
+        NEXT: 'end'
+      }
+    },
+    end: {
+      type: 'final'
+    }
+  }
+});
+
+
+describe('diagram', () => {
+  describe('buildPathGraph', () => {
+    test('creates a node for each state', async () => {
+      const paths = await Path.makePaths(testMachine);
+
+      const { nodes } = buildPathGraph(paths);
+
+      expect(nodes.map(node => node.label)).toEqual(['start', 'middle', 'end']);
+      expect(nodes.map(node => node.isInitial)).toEqual([true, false, false]);
+      expect(nodes.map(node => node.isFinal)).toEqual([false, false, true]);
+    });
+
+    test('counts repeated transitions', async () => {
+      const paths = await Path.makePaths(testMachine);
+
+      const { edges } = buildPathGraph(paths);
+      const startToMiddle = edges.find(edge => edge.from === 's0' && edge.to === 's1')!;
+
+      expect(edges.length).toEqual(3);
+      expect(startToMiddle.count).toBeGreaterThan(1);
+    });
+  });
+
+  describe('pathsToMermaid', () => {
+    test('renders a state diagram', async () => {
+      const [path] = await Path.makePaths(testMachine, { maxLength: 3 });
+
+      expect(pathsToMermaid(path)).toEqual([
+        'stateDiagram-v2',
+        '  state "start" as s0',
+        '  state "middle" as s1',
+        '  state "end" as s2',
+        '  [*] --> s0',
+        '  s0 --> s1 : NEXT',
+        '  s1 --> s2 : NEXT',
+        '  s2 --> [*]',
+      ].join('\n'));
+    });
+
+    test('renders a flowchart', async () => {
+      const [path] = await Path.makePaths(testMachine, { maxLength: 3 });
+
+      expect(pathsToMermaid(path, { type: 'flowchart' })).toEqual([
+        'flowchart LR',
+        '  s0["start"]',
+        '  s1["middle"]',
+        '  s2((("end")))',
+        '  initial(( ))',
+        '  initial --> s0',
+        '  s0 -->|"NEXT"| s1',
+        '  s1 -->|"NEXT"| s2',
+      ].join('\n'));
+    });
+
+    test('escapes event data', () => {
+      const state = testMachine.transition(testMachine.initialState, { type: 'NEXT', foo: 'bar' });
+      const path = new Path(testMachine, [new Segment(testMachine), new Segment(testMachine, state)]);
+
+      expect(pathsToMermaid(path)).toContain('s0 --> s1 : NEXT {#quot;foo#quot;#58;#quot;bar#quot;}');
+      expect(pathsToDot(path)).toContain('s0 -> s1 [label="NEXT {\\"foo\\":\\"bar\\"}"];');
+    });
+  });
+
+  describe('pathsToDot', () => {
+    test('renders a DOT graph', async () => {
+      const [path] = await Path.makePaths(testMachine, { maxLength: 3 });
+
+      expect(pathsToDot(path)).toEqual([
+        'digraph "paths" {',
+        '  rankdir=LR;',
+        '  initial [shape=point];',
+        '  s0 [label="start"];',
+        '  s1 [label="middle"];',
+        '  s2 [label="end", shape=doublecircle];',
+        '  initial -> s0;',
+        '  s0 -> s1 [label="NEXT"];',
+        '  s1 -> s2 [label="NEXT"];',
+        '}',
+      ].join('\n'));
+    });
+  });
+});
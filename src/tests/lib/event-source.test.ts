@@ -1,6 +1,6 @@
-import { describe, test, expect } from 'vitest';
-import { EventSource, EventSourceMap } from '@/lib';
-import { AnyState } from 'xstate';
+import { describe, test, expect, vi } from 'vitest';
+import { EventSource, EventSourceMap, Path, arrayFromAsyncGenerator, combinatorialEvents, crossMerge } from '@/lib';
+import { AnyState, createMachine } from 'xstate';
 
 const options: Record<string, EventSourceMap | undefined> = {
   none: undefined,
@@ -23,6 +23,18 @@ const options: Record<string, EventSourceMap | undefined> = {
       yield { type: 'EVENT', payload: { value: 'bar' } };
     }
   },
+  withAsyncFunction: {
+    EVENT: async () => [
+      { type: 'EVENT', payload: { value: 'foo' } },
+      { type: 'EVENT', payload: { value: 'bar' } },
+    ]
+  },
+  withAsyncGenerator: {
+    EVENT: async function* () {
+      yield { type: 'EVENT', payload: { value: 'foo' } };
+      yield { type: 'EVENT', payload: { value: 'bar' } };
+    }
+  },
   withEverything: {
     EVENT1: [
       { type: 'EVENT1', payload: { value: 'foo' } },
@@ -59,35 +71,248 @@ describe('EventSource', () => {
 
   describe('generateEvents', () => {
     const eventSource = new EventSource(options.withEverything);
+    const mockState = { nextEvents: [] as string[] } as AnyState;
 
-    test('generates arbitrary events', () => {
+    test('generates arbitrary events', async () => {
       const arbitraryType = 'ARBITRARY';
       const expected = [{ type: arbitraryType }];
 
-      const events = [...eventSource.generateEvents(arbitraryType)];
+      const events = await arrayFromAsyncGenerator(eventSource.generateEvents(arbitraryType, mockState));
 
       expect(events).toEqual(expected);
     });
 
-    test('generates known events', () => {
+    test('generates known events', async () => {
       const expected = options.withEverything!.EVENT1;
 
-      const results = [...eventSource.generateEvents('EVENT1')];
+      const results = await arrayFromAsyncGenerator(eventSource.generateEvents('EVENT1', mockState));
 
       expect(results).toEqual(expected);
     });
+
+    test('generates events from async functions and async generators', async () => {
+      const expected = options.withArray!.EVENT;
+
+      const fromFunction = await arrayFromAsyncGenerator(new EventSource(options.withAsyncFunction).generateEvents('EVENT', mockState));
+      const fromGenerator = await arrayFromAsyncGenerator(new EventSource(options.withAsyncGenerator).generateEvents('EVENT', mockState));
+
+      expect(fromFunction).toEqual(expected);
+      expect(fromGenerator).toEqual(expected);
+    });
+
+    test('passes the state and path to event functions', async () => {
+      const mockPath = {} as Path;
+      const creator = vi.fn().mockReturnValue([]);
+      const generator = vi.fn().mockImplementation(function* () { });
+      const source = new EventSource({ CREATED: creator, GENERATED: generator });
+
+      await arrayFromAsyncGenerator(source.generateEvents('CREATED', mockState, mockPath));
+      await arrayFromAsyncGenerator(source.generateEvents('GENERATED', mockState, mockPath));
+
+      expect(creator).toHaveBeenCalledWith(mockState, mockPath);
+      expect(generator).toHaveBeenCalledWith(mockState, mockPath);
+    });
+
+    test('generates events from the state\'s context', async () => {
+      const contextState = { context: { ids: [1, 2] } } as unknown as AnyState;
+      const source = new EventSource({
+        SELECT: (fromState) => fromState.context.ids.map((id: number) => ({ type: 'SELECT', id })),
+      });
+
+      const events = await arrayFromAsyncGenerator(source.generateEvents('SELECT', contextState));
+
+      expect(events).toEqual([{ type: 'SELECT', id: 1 }, { type: 'SELECT', id: 2 }]);
+    });
+
+    test('generates invocation events with the given data', async () => {
+      const source = new EventSource({}, {
+        loader: {
+          done: [{ id: 1 }, { id: 2 }],
+          error: async () => ['Not found'],
+        },
+      });
+
+      const doneEvents = await arrayFromAsyncGenerator(source.generateEvents('done.invoke.loader', mockState));
+      const errorEvents = await arrayFromAsyncGenerator(source.generateEvents('error.platform.loader', mockState));
+
+      expect(doneEvents).toEqual([
+        { type: 'done.invoke.loader', data: { id: 1 } },
+        { type: 'done.invoke.loader', data: { id: 2 } },
+      ]);
+      expect(errorEvents).toEqual([{ type: 'error.platform.loader', data: 'Not found' }]);
+    });
+
+    test('prefers options over invocation data for the same event type', async () => {
+      const source = new EventSource({
+        'done.invoke.loader': [{ type: 'done.invoke.loader', data: 'explicit' }],
+      }, {
+        loader: { done: ['generated'] },
+      });
+
+      const events = await arrayFromAsyncGenerator(source.generateEvents('done.invoke.loader', mockState));
+
+      expect(events).toEqual([{ type: 'done.invoke.loader', data: 'explicit' }]);
+    });
   });
 
   describe('generateNextEvents', () => {
     const eventSource = new EventSource(options.withEverything);
 
-    test('generates events for each type in state.nextEvents', () => {
+    test('generates events for each type in state.nextEvents', async () => {
       const mockState = { nextEvents: ['ARBITRARY', 'EVENT1'] } as AnyState;
       const expected = [{ type: 'ARBITRARY' }, ...(options.withEverything!.EVENT1 as any[])];
 
-      const events = [...eventSource.generateNextEvents(mockState)];
+      const events = await arrayFromAsyncGenerator(eventSource.generateNextEvents(mockState));
 
       expect(events).toEqual(expected);
     });
+
+    test('generates both outcomes of invoked services', async () => {
+      const testMachine = createMachine({
+        id: 'test-machine',
+        predictableActionArguments: true,
+        initial: 'loading',
+        states: {
+          loading: {
+            invoke: {
+              id: 'loader',
+              src: 'load',
+              onDone: 'loaded',
+              onError: 'failed',
+            }
+          },
+          loaded: { type: 'final' },
+          failed: { type: 'final' },
+        }
+      });
+
+      const eventSource = new EventSource({}, {
+        loader: { done: ['data'], error: ['error'] },
+      });
+
+      const paths = await Path.makePaths(testMachine, { eventSource });
+
+      expect(paths.map(path => path.lastSegment?.event)).toEqual([
+        { type: 'done.invoke.loader', data: 'data' },
+        { type: 'error.platform.loader', data: 'error' },
+      ]);
+      expect(paths.map(path => path.target)).toEqual(['loaded', 'failed']);
+    });
+
+    test('only generates the outcomes of invoked services the state handles or that are configured', async () => {
+      const testMachine = createMachine({
+        id: 'test-machine',
+        predictableActionArguments: true,
+        initial: 'loading',
+        states: {
+          loading: {
+            invoke: { id: 'loader', src: 'load', onDone: 'loaded' },
+            on: { CANCEL: 'loaded' },
+          },
+          loaded: { type: 'final' },
+        }
+      });
+
+      const events = await arrayFromAsyncGenerator(new EventSource().generateNextEvents(testMachine.initialState));
+      const configuredEvents = await arrayFromAsyncGenerator(
+        new EventSource({}, { loader: { error: [new Error('Not found')] } }).generateNextEvents(testMachine.initialState)
+      );
+
+      expect(events).toEqual([
+        { type: 'done.invoke.loader' },
+        { type: 'CANCEL' },
+      ]);
+      expect(configuredEvents.map(event => event.type)).toEqual(['done.invoke.loader', 'CANCEL', 'error.platform.loader']);
+    });
+  });
+
+  describe('generateWeightedNextEvents', () => {
+    const mockState = { nextEvents: ['EVENT1', 'EVENT2'] } as AnyState;
+
+    test('gives every event type the same probability by default', async () => {
+      const eventSource = new EventSource(options.withEverything);
+
+      const events = await arrayFromAsyncGenerator(eventSource.generateWeightedNextEvents(mockState));
+
+      expect(events.map(({ probability }) => probability)).toEqual([0.25, 0.25, 0.25, 0.25]);
+    });
+
+    test('weights event types', async () => {
+      const eventSource = new EventSource({
+        EVENT1: { weight: 3 },
+        EVENT2: { weight: 1 },
+      });
+
+      const events = await arrayFromAsyncGenerator(eventSource.generateWeightedNextEvents(mockState));
+
+      expect(events).toEqual([
+        { event: { type: 'EVENT1' }, probability: 0.75 },
+        { event: { type: 'EVENT2' }, probability: 0.25 },
+      ]);
+    });
+
+    test('weights events within a type', async () => {
+      const eventSource = new EventSource({
+        EVENT1: {
+          events: options.withEverything!.EVENT1 as any[],
+          eventWeight: event => event.payload.value === 'foo' ? 1 : 0,
+        },
+      });
+
+      const events = await arrayFromAsyncGenerator(eventSource.generateWeightedNextEvents(mockState));
+
+      expect(events.map(({ probability }) => probability)).toEqual([0.5, 0, 0.5]);
+    });
+
+    test('weights events depending on the state', async () => {
+      const eventSource = new EventSource({
+        EVENT1: { weight: (_, state) => state.nextEvents.includes('EVENT2') ? 0 : 1 },
+      });
+
+      const events = await arrayFromAsyncGenerator(eventSource.generateWeightedNextEvents(mockState));
+
+      expect(events.map(({ probability }) => probability)).toEqual([0, 1]);
+    });
+  });
+
+  describe('combinatorialEvents', () => {
+    const fields = {
+      size: ['small', 'medium', 'large', 'huge'],
+      color: ['red', 'green', 'blue', 'black'],
+      express: [true, false],
+    };
+
+    test('covers every pair of values', () => {
+      const events = combinatorialEvents('SUBMIT', fields);
+
+      expect(events).toHaveLength(16);
+      expect(events.every(event => event.type === 'SUBMIT')).toBe(true);
+
+      for (const size of fields.size)
+        for (const express of fields.express)
+          expect(events.some(event => event.size === size && event.express === express)).toBe(true);
+    });
+
+    test('creates every combination with full strength', () => {
+      const events = combinatorialEvents('SUBMIT', fields, { strength: 'full' });
+      const expected = crossMerge(
+        crossMerge(fields.size.map(size => ({ size })), fields.color.map(color => ({ color }))),
+        fields.express.map(express => ({ express })),
+      );
+
+      expect(events).toHaveLength(expected.length);
+      expect(events).toEqual(expect.arrayContaining(expected.map(payload => ({ type: 'SUBMIT', ...payload }))));
+    });
+
+    test('can be used as the events of an EventSource', async () => {
+      const eventSource = new EventSource({
+        EVENT1: combinatorialEvents('EVENT1', { a: [1, 2], b: [1, 2], c: [1, 2] }),
+      });
+      const mockState = { nextEvents: ['EVENT1'] } as AnyState;
+
+      const events = await arrayFromAsyncGenerator(eventSource.generateNextEvents(mockState));
+
+      expect(events).toHaveLength(4);
+    });
   });
-});
\ No newline at end of file
+});
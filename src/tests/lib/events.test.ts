@@ -0,0 +1,108 @@
+import { describe, test, expect } from 'vitest';
+import { getActiveInvocationIds, getInvocationEventTypes, isInternalEvent, parseDelayedEventType, resolveDelay } from '@/lib';
+import { AnyState, createMachine } from 'xstate';
+
+const testMachine = createMachine({
+  id: 'test-machine',
+  predictableActionArguments: true,
+  initial: 'waiting',
+  context: { timeout: 5000 },
+  states: {
+    waiting: {
+      after: {
+        1000: 'fast',
+        slow: 'slow',
+        fromContext: 'timedOut',
+      }
+    },
+    fast: {},
+    slow: {},
+    timedOut: {},
+  }
+}, {
+  delays: {
+    slow: 3000,
+    fromContext: (context) => context.timeout,
+  }
+});
+
+
+describe('events', () => {
+  describe('isInternalEvent', () => {
+    test('returns true for events an actor sends itself', () => {
+      expect(isInternalEvent('done.invoke.loader')).toEqual(true);
+      expect(isInternalEvent('error.platform.loader')).toEqual(true);
+      expect(isInternalEvent('xstate.after(1000)#test-machine.waiting')).toEqual(true);
+    });
+
+    test('returns false for other events', () => {
+      expect(isInternalEvent('SUBMIT')).toEqual(false);
+    });
+  });
+
+  describe('parseDelayedEventType', () => {
+    test('splits a delayed event type', () => {
+      expect(parseDelayedEventType('xstate.after(1000)#test-machine.waiting')).toEqual({
+        delay: '1000',
+        stateId: 'test-machine.waiting',
+      });
+    });
+
+    test('returns undefined for other events', () => {
+      expect(parseDelayedEventType('SUBMIT')).toBeUndefined();
+    });
+  });
+
+  describe('getInvocationEventTypes', () => {
+    test('returns the done and error event types of an invoke id', () => {
+      expect(getInvocationEventTypes('loader')).toEqual({
+        done: 'done.invoke.loader',
+        error: 'error.platform.loader',
+      });
+    });
+  });
+
+  describe('getActiveInvocationIds', () => {
+    test('returns the ids of the services the active state nodes invoke', () => {
+      const invokingMachine = createMachine({
+        id: 'invoking-machine',
+        predictableActionArguments: true,
+        initial: 'loading',
+        states: {
+          loading: {
+            invoke: [
+              { id: 'user', src: 'loadUser' },
+              { id: 'settings', src: 'loadSettings' },
+            ],
+          },
+        },
+      });
+
+      expect(getActiveInvocationIds(invokingMachine.initialState)).toEqual(['user', 'settings']);
+    });
+
+    test('returns no ids for states without configuration', () => {
+      expect(getActiveInvocationIds({} as AnyState)).toEqual([]);
+    });
+  });
+
+  describe('resolveDelay', () => {
+    const state = testMachine.initialState;
+
+    test('resolves numeric delays', () => {
+      expect(resolveDelay(testMachine, 'xstate.after(1000)#test-machine.waiting', state)).toEqual(1000);
+    });
+
+    test('resolves named delays', () => {
+      expect(resolveDelay(testMachine, 'xstate.after(slow)#test-machine.waiting', state)).toEqual(3000);
+    });
+
+    test('resolves delay expressions with the state\'s context', () => {
+      expect(resolveDelay(testMachine, 'xstate.after(fromContext)#test-machine.waiting', state)).toEqual(5000);
+    });
+
+    test('returns undefined for other events', () => {
+      expect(resolveDelay(testMachine, 'SUBMIT', state)).toBeUndefined();
+    });
+  });
+});
@@ -0,0 +1,68 @@
+import { describe, test, expect } from 'vitest';
+import { getPayloadNormalizers, ignoreKeys, normalizePayload, sortKeys } from '@/lib';
+
+describe('normalizers', () => {
+  describe('ignoreKeys', () => {
+    test('removes top-level keys', () => {
+      const event = { type: 'SUBMIT', value: 'foo', timestamp: 1 };
+
+      expect(ignoreKeys('timestamp')({ value: 'foo', timestamp: 1 }, event)).toEqual({ value: 'foo' });
+    });
+
+    test('removes nested keys', () => {
+      const payload = { value: 'foo', meta: { requestId: 'abc', source: 'form' } };
+      const event = { type: 'SUBMIT', ...payload };
+
+      expect(ignoreKeys('meta.requestId')(payload, event)).toEqual({ value: 'foo', meta: { source: 'form' } });
+    });
+
+    test('does not modify the payload', () => {
+      const payload = { value: 'foo', meta: { requestId: 'abc' } };
+
+      ignoreKeys('value', 'meta.requestId')(payload, { type: 'SUBMIT', ...payload });
+
+      expect(payload).toEqual({ value: 'foo', meta: { requestId: 'abc' } });
+    });
+  });
+
+  describe('sortKeys', () => {
+    test('sorts the keys of nested objects', () => {
+      const payload = { b: 1, a: { d: [{ f: 1, e: 2 }], c: 3 } };
+      const sorted = sortKeys(payload, { type: 'EVENT', ...payload });
+
+      expect(JSON.stringify(sorted)).toEqual('{"a":{"c":3,"d":[{"e":2,"f":1}]},"b":1}');
+    });
+  });
+
+  describe('getPayloadNormalizers', () => {
+    test('returns the exact match first, followed by matching patterns', () => {
+      const exact = ignoreKeys('a');
+      const pattern = ignoreKeys('b');
+      const other = ignoreKeys('c');
+
+      const normalizers = getPayloadNormalizers('form.SUBMIT', {
+        'form.*': pattern,
+        'form.SUBMIT': exact,
+        'other.*': other,
+      });
+
+      expect(normalizers).toEqual([exact, pattern]);
+    });
+  });
+
+  describe('normalizePayload', () => {
+    test('returns the payload without the type', () => {
+      expect(normalizePayload({ type: 'SUBMIT', value: 'foo' })).toEqual({ value: 'foo' });
+    });
+
+    test('applies normalizers in order', () => {
+      const event = { type: 'SUBMIT', value: 'foo', timestamp: 1 };
+
+      const payload = normalizePayload(event, {
+        SUBMIT: [ignoreKeys('timestamp'), (payload) => payload.value.toUpperCase()],
+      });
+
+      expect(payload).toEqual('FOO');
+    });
+  });
+});
@@ -0,0 +1,79 @@
+import { describe, test, expect, vi } from 'vitest';
+import { PathBudget, arrayFromAsyncGenerator } from '@/lib';
+
+describe('PathBudget', () => {
+  test('is never exhausted without limits', () => {
+    const budget = new PathBudget();
+
+    for (let i = 0; i < 100; i++)
+      budget.countPath();
+
+    expect(budget.isExhausted()).toEqual(false);
+    expect(budget.truncated).toBeUndefined();
+  });
+
+  test('is exhausted after maxPaths', () => {
+    const budget = new PathBudget({ maxPaths: 2 });
+
+    budget.countPath();
+    expect(budget.isExhausted()).toEqual(false);
+
+    budget.countPath();
+    expect(budget.isExhausted()).toEqual(true);
+    expect(budget.truncated).toEqual('maxPaths');
+  });
+
+  test('is exhausted after timeBudgetMs', () => {
+    vi.useFakeTimers();
+
+    try {
+      const budget = new PathBudget({ timeBudgetMs: 1000 });
+      expect(budget.isExhausted()).toEqual(false);
+
+      vi.advanceTimersByTime(1000);
+      expect(budget.isExhausted()).toEqual(true);
+      expect(budget.truncated).toEqual('timeBudget');
+    } finally {
+      vi.useRealTimers();
+    }
+  });
+
+  test('is exhausted when the signal is aborted', () => {
+    const controller = new AbortController();
+    const budget = new PathBudget({ signal: controller.signal });
+    expect(budget.isExhausted()).toEqual(false);
+
+    controller.abort();
+    expect(budget.isExhausted()).toEqual(true);
+    expect(budget.truncated).toEqual('aborted');
+  });
+
+  test('stops iterating when the budget runs out while waiting', async () => {
+    const budget = new PathBudget({ timeBudgetMs: 20 });
+    const items = (async function* () {
+      yield 1;
+      await new Promise(() => { });
+    })();
+
+    const result = await arrayFromAsyncGenerator(budget.iterate(items));
+
+    expect(result).toEqual([1]);
+    expect(budget.truncated).toEqual('timeBudget');
+  });
+
+  test('reports progress for each segment', () => {
+    const onProgress = vi.fn();
+    const budget = new PathBudget({ onProgress });
+
+    budget.countPath();
+    budget.frontier = 3;
+    budget.countSegment(2);
+
+    expect(onProgress).toHaveBeenCalledWith(expect.objectContaining({
+      paths: 1,
+      segments: 1,
+      depth: 2,
+      frontier: 3,
+    }));
+  });
+});
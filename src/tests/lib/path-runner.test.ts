@@ -0,0 +1,390 @@
+import { describe, test, expect, vi } from 'vitest';
+import { Path, PathDivergenceError, Segment, PathRunError, PathTimeoutError, TestRunner } from '@/lib';
+import { createMachine } from 'xstate';
+
+const testMachine = createMachine({
+  id: 'test-machine',
+  preserveActionOrder: true,
+  predictableActionArguments: true,
+  initial: 'start',
+  states: {
+    start: {
+      on: {
+        NEXT: 'middle'
+      }
+    },
+    middle: {
+      on: {
+        NEXT: 'end'
+      }
+    },
+    end: {
+      type: 'final'
+    }
+  }
+});
+
+const sleep = (ms: number) => new Promise<void>(resolve => setTimeout(resolve, ms));
+
+
+describe('PathRunner', () => {
+  describe('run', () => {
+    test('runs each segment of the path', async () => {
+      const [path] = await Path.makePaths(testMachine);
+      const onState = vi.fn();
+      const runner = new TestRunner({}, { start: onState, middle: onState, end: onState });
+
+      await runner.run(path);
+
+      expect(onState.mock.calls.map(([state]) => state.value)).toEqual(['start', 'middle', 'end']);
+    });
+
+    test('wraps failures in a PathRunError', async () => {
+      const [path] = await Path.makePaths(testMachine);
+      const failure = new Error('failed');
+      const runner = new TestRunner({}, { end: () => { throw failure } });
+
+      const error = await runner.run(path).catch(error => error);
+
+      expect(error).toBeInstanceOf(PathRunError);
+      expect(error.path).toBe(path);
+      expect(error.segmentIndex).toEqual(2);
+      expect(error.segment).toBe(path.segments[2]);
+      expect(error.state.value).toEqual('end');
+      expect(error.originalError).toBe(failure);
+    });
+
+    test('fails a step that exceeds stepTimeout', async () => {
+      const [path] = await Path.makePaths(testMachine);
+      const runner = new TestRunner({}, { middle: () => sleep(100) }, { stepTimeout: 10 });
+
+      const error = await runner.run(path).catch(error => error);
+
+      expect(error).toBeInstanceOf(PathRunError);
+      expect(error.segmentIndex).toEqual(1);
+      expect(error.originalError).toBeInstanceOf(PathTimeoutError);
+      expect(error.originalError.scope).toEqual('step');
+    });
+
+    test('fails a path that exceeds pathTimeout', async () => {
+      const [path] = await Path.makePaths(testMachine);
+      const runner = new TestRunner({}, { middle: () => sleep(100) }, { pathTimeout: 30 });
+
+      const error = await runner.run(path).catch(error => error);
+
+      expect(error).toBeInstanceOf(PathRunError);
+      expect(error.segmentIndex).toEqual(1);
+      expect(error.originalError.scope).toEqual('path');
+    });
+
+    test('applies pathTimeout to beforePath', async () => {
+      const [path] = await Path.makePaths(testMachine);
+      const runner = new TestRunner({}, {}, {
+        pathTimeout: 30,
+        hooks: { beforePath: () => new Promise<void>(() => {}) },
+      });
+
+      const error = await runner.run(path).catch(error => error);
+
+      expect(error).toBeInstanceOf(PathRunError);
+      expect(error.segmentIndex).toEqual(0);
+      expect(error.originalError.scope).toEqual('path');
+    });
+
+    test('retries a failed step', async () => {
+      const [path] = await Path.makePaths(testMachine);
+      const onMiddle = vi.fn()
+        .mockRejectedValueOnce(new Error('flaky'))
+        .mockResolvedValueOnce(undefined);
+      const runner = new TestRunner({}, { middle: onMiddle }, { retries: 1 });
+
+      await runner.run(path);
+
+      expect(onMiddle).toHaveBeenCalledTimes(2);
+    });
+
+    test('aborts a step that timed out before retrying it', async () => {
+      const [path] = await Path.makePaths(testMachine);
+      const onMiddle = vi.fn();
+      let attempts = 0;
+      const beforeSegment = async (_: Path, segment: Segment) => {
+        if (segment.state.matches('middle') && ++attempts === 1)
+          await sleep(50);
+      };
+      const runner = new TestRunner({}, { middle: onMiddle }, { stepTimeout: 10, retries: 1, hooks: { beforeSegment } });
+
+      await runner.run(path);
+      await sleep(60);
+
+      expect(attempts).toEqual(2);
+      expect(onMiddle).toHaveBeenCalledTimes(1);
+    });
+
+    test('fails once the retries are used up', async () => {
+      const [path] = await Path.makePaths(testMachine);
+      const onMiddle = vi.fn().mockRejectedValue(new Error('broken'));
+      const runner = new TestRunner({}, { middle: onMiddle }, { retries: 2 });
+
+      const error = await runner.run(path).catch(error => error);
+
+      expect(onMiddle).toHaveBeenCalledTimes(3);
+      expect(error.attempts).toEqual(3);
+    });
+  });
+
+  describe('hooks', () => {
+    test('are called in order', async () => {
+      const [path] = await Path.makePaths(testMachine, { maxLength: 2, filterPath: path => path.length === 2 });
+      const calls: string[] = [];
+      const runner = new TestRunner<[string]>({}, {
+        middle: (_, name) => { calls.push(`onTransition ${name}`) },
+      }, {
+        hooks: {
+          beforePath: (_, name) => { calls.push(`beforePath ${name}`) },
+          beforeSegment: (_, segment) => { calls.push(`beforeSegment ${segment.stateDescription}`) },
+          afterSegment: (_, segment) => { calls.push(`afterSegment ${segment.stateDescription}`) },
+          afterPath: (_, name) => { calls.push(`afterPath ${name}`) },
+        }
+      });
+
+      await runner.run(path, 'context');
+
+      expect(calls).toEqual([
+        'beforePath context',
+        'beforeSegment start',
+        'afterSegment start',
+        'beforeSegment middle',
+        'onTransition context',
+        'afterSegment middle',
+        'afterPath context',
+      ]);
+    });
+
+    test('call onError and afterPath when a step fails', async () => {
+      const [path] = await Path.makePaths(testMachine);
+      const onError = vi.fn();
+      const afterPath = vi.fn();
+      const runner = new TestRunner({}, { middle: () => { throw new Error('failed') } }, {
+        hooks: { onError, afterPath }
+      });
+
+      const error = await runner.run(path).catch(error => error);
+
+      expect(onError).toHaveBeenCalledWith(error);
+      expect(afterPath).toHaveBeenCalledWith(path);
+    });
+
+    test('call afterPath when beforePath fails', async () => {
+      const [path] = await Path.makePaths(testMachine);
+      const afterPath = vi.fn();
+      const runner = new TestRunner({}, {}, {
+        hooks: { beforePath: () => { throw new Error('setup failed') }, afterPath }
+      });
+
+      const error = await runner.run(path).catch(error => error);
+
+      expect(error).toBeInstanceOf(PathRunError);
+      expect(error.segmentIndex).toEqual(0);
+      expect(afterPath).toHaveBeenCalled();
+    });
+
+    test('report the original failure if afterPath also fails', async () => {
+      const [path] = await Path.makePaths(testMachine);
+      const failure = new Error('failed');
+      const runner = new TestRunner({}, { end: () => { throw failure } }, {
+        hooks: { afterPath: () => { throw new Error('cleanup failed') } }
+      });
+
+      const error = await runner.run(path).catch(error => error);
+
+      expect(error.originalError).toBe(failure);
+    });
+
+    test('report the original failure if onError also fails', async () => {
+      const [path] = await Path.makePaths(testMachine);
+      const failure = new Error('failed');
+      const afterPath = vi.fn();
+      const runner = new TestRunner({}, { end: () => { throw failure } }, {
+        hooks: { onError: () => { throw new Error('reporting failed') }, afterPath }
+      });
+
+      const error = await runner.run(path).catch(error => error);
+
+      expect(error).toBeInstanceOf(PathRunError);
+      expect(error.segmentIndex).toEqual(2);
+      expect(error.originalError).toBe(failure);
+      expect(afterPath).toHaveBeenCalled();
+    });
+  });
+
+  describe('interpret mode', () => {
+    const loader = vi.fn().mockResolvedValue('data');
+    const serviceMachine = createMachine({
+      id: 'service-machine',
+      predictableActionArguments: true,
+      initial: 'idle',
+      states: {
+        idle: {
+          on: {
+            LOAD: 'loading'
+          }
+        },
+        loading: {
+          invoke: {
+            id: 'loader',
+            src: () => loader(),
+            onDone: 'loaded'
+          },
+          on: {
+            CANCEL: 'idle'
+          }
+        },
+        loaded: {
+          on: {
+            RESET: 'idle'
+          }
+        }
+      }
+    });
+
+    const makePath = (events: string[]) => {
+      const segments = [new Segment(serviceMachine)];
+      for (const event of events)
+        segments.push(new Segment(serviceMachine, serviceMachine.transition(segments[segments.length - 1].state, event)));
+
+      return new Path(serviceMachine, segments);
+    };
+
+    test('runs invoked services', async () => {
+      const path = makePath(['LOAD', 'done.invoke.loader']);
+      const onLoaded = vi.fn();
+      loader.mockClear();
+
+      await new TestRunner({}, { loaded: onLoaded }, { mode: 'interpret' }).run(path);
+
+      expect(loader).toHaveBeenCalledTimes(1);
+      expect(onLoaded).toHaveBeenCalledTimes(1);
+    });
+
+    test('does not run invoked services in transition mode', async () => {
+      const path = makePath(['LOAD', 'done.invoke.loader']);
+      loader.mockClear();
+
+      await new TestRunner({}, {}).run(path);
+
+      expect(loader).not.toHaveBeenCalled();
+    });
+
+    test('reports a divergence when the actor reaches a different state', async () => {
+      const path = makePath(['LOAD', 'CANCEL']);
+      const runner = new TestRunner({}, {}, { mode: 'interpret' });
+
+      const error = await runner.run(path).catch(error => error);
+
+      expect(error).toBeInstanceOf(PathRunError);
+      expect(error.segmentIndex).toEqual(2);
+      expect(error.originalError).toBeInstanceOf(PathDivergenceError);
+      expect(error.originalError.actualState.value).toEqual('loaded');
+    });
+
+    test('does not send the event again when retrying a divergent step', async () => {
+      const onCancel = vi.fn();
+      const divergingMachine = createMachine({
+        id: 'diverging-machine',
+        predictableActionArguments: true,
+        initial: 'idle',
+        states: {
+          idle: { on: { LOAD: 'loading' } },
+          loading: {
+            invoke: { id: 'loader', src: () => Promise.resolve('data'), onDone: 'loaded' },
+            on: { CANCEL: 'idle' },
+          },
+          loaded: { on: { CANCEL: { actions: onCancel } } },
+        },
+      });
+      const segments = [new Segment(divergingMachine)];
+      for (const event of ['LOAD', 'CANCEL'])
+        segments.push(new Segment(divergingMachine, divergingMachine.transition(segments[segments.length - 1].state, event)));
+
+      const runner = new TestRunner({}, {}, { mode: 'interpret', retries: 2 });
+      const error = await runner.run(new Path(divergingMachine, segments)).catch(error => error);
+
+      expect(error.originalError).toBeInstanceOf(PathDivergenceError);
+      expect(error.attempts).toEqual(3);
+      expect(onCancel).toHaveBeenCalledTimes(1);
+    });
+  });
+
+  describe('simulated clock', () => {
+    const timerMachine = createMachine({
+      id: 'timer-machine',
+      predictableActionArguments: true,
+      initial: 'waiting',
+      states: {
+        waiting: {
+          after: {
+            60000: 'timedOut'
+          },
+          on: {
+            ANSWER: 'answered'
+          }
+        },
+        timedOut: {
+          type: 'final'
+        },
+        answered: {
+          type: 'final'
+        }
+      }
+    });
+
+    test('replays delayed transitions without waiting', async () => {
+      const paths = await Path.makePaths(timerMachine);
+      const timedOutPath = paths.find(path => path.target === 'timedOut')!;
+      const onTimedOut = vi.fn();
+
+      await new TestRunner({}, { timedOut: onTimedOut }, { mode: 'interpret', stepTimeout: 1000 }).run(timedOutPath);
+
+      expect(timedOutPath.description).toEqual('xstate.init -> waiting -> wait 60000ms -> timedOut');
+      expect(onTimedOut).toHaveBeenCalledTimes(1);
+    });
+
+    test('does not fire delayed transitions until a delayed segment is run', async () => {
+      const paths = await Path.makePaths(timerMachine);
+      const answeredPath = paths.find(path => path.target === 'answered')!;
+      const onAnswered = vi.fn();
+
+      await new TestRunner({}, { answered: onAnswered }, { mode: 'interpret' }).run(answeredPath);
+
+      expect(onAnswered).toHaveBeenCalledTimes(1);
+    });
+  });
+
+  describe('real clock', () => {
+    const timerMachine = createMachine({
+      id: 'timer-machine',
+      predictableActionArguments: true,
+      initial: 'waiting',
+      states: {
+        waiting: {
+          after: {
+            50: 'timedOut'
+          }
+        },
+        timedOut: {
+          type: 'final'
+        }
+      }
+    });
+
+    test('waits for the delay of delayed segments', async () => {
+      const [path] = await Path.makePaths(timerMachine);
+      const onTimedOut = vi.fn();
+
+      await new TestRunner({}, { timedOut: onTimedOut }, { mode: 'interpret', clock: 'real', stepTimeout: 1000 }).run(path);
+
+      expect(path.description).toEqual('xstate.init -> waiting -> wait 50ms -> timedOut');
+      expect(onTimedOut).toHaveBeenCalledTimes(1);
+    });
+  });
+});
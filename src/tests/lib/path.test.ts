@@ -1,6 +1,6 @@
-import { describe, test, expect } from 'vitest';
-import { Path, Segment } from '@/lib'
-import { createMachine } from 'xstate';
+import { describe, test, expect, vi } from 'vitest';
+import { EventSource, Path, PathGenerationProgress, PathLoadError, Segment, StateGraph, arrayFromAsyncGenerator, ignoreKeys } from '@/lib'
+import { assign, createMachine } from 'xstate';
 
 const testMachine = createMachine({
   id: 'test-machine',
@@ -61,5 +61,837 @@ describe('Path', () => {
     });
   });
 
-  
-});
\ No newline at end of file
+  describe('generatePaths', () => {
+    test('yields shorter paths first when using the bfs strategy', async () => {
+      const paths = await arrayFromAsyncGenerator(Path.generatePaths(testMachine, {
+        strategy: 'bfs',
+        filterPath: () => true,
+      }));
+      const lengths = paths.map(path => path.length);
+
+      expect(lengths).toEqual([...lengths].sort((a, b) => a - b));
+    });
+
+    test('yields the same paths with either strategy', async () => {
+      const dfsPaths = await Path.makePaths(testMachine, { strategy: 'dfs' });
+      const bfsPaths = await Path.makePaths(testMachine, { strategy: 'bfs' });
+
+      const dfsDescriptions = dfsPaths.map(path => path.description).sort();
+      const bfsDescriptions = bfsPaths.map(path => path.description).sort();
+
+      expect(bfsDescriptions).toEqual(dfsDescriptions);
+    });
+  });
+
+  describe('deduplicate', () => {
+    const branchingMachine = createMachine({
+      id: 'branching-machine',
+      predictableActionArguments: true,
+      initial: 'start',
+      states: {
+        start: {
+          on: {
+            GO: 'a',
+            JUMP: 'a',
+            SKIP: 'aa',
+          }
+        },
+        a: {
+          on: {
+            GO: 'aa',
+          }
+        },
+        aa: {
+          on: {
+            GO: 'a',
+          }
+        },
+      }
+    });
+
+    const makePath = (...events: string[]) => {
+      let state = branchingMachine.initialState;
+      const segments = [new Segment(branchingMachine, state)];
+
+      for (const event of events) {
+        state = branchingMachine.transition(state, event);
+        segments.push(new Segment(branchingMachine, state));
+      }
+
+      return new Path(branchingMachine, segments);
+    };
+
+    test('does not match partial segment descriptions', () => {
+      const long = makePath('JUMP', 'GO');   // xstate.init -> start -> JUMP -> a -> GO -> aa
+      const short = new Path(branchingMachine, makePath('SKIP', 'GO').segments.slice(2));   // GO -> a
+
+      expect(long.description).toContain(short.description);
+      expect(Path.deduplicate([long, short])).toEqual([short, long]);
+    });
+
+    test('only removes prefixes in prefix mode', () => {
+      const long = makePath('GO', 'GO', 'GO');
+      const prefix = makePath('GO', 'GO');
+      const middle = new Path(branchingMachine, long.segments.slice(1, 3));
+
+      expect(Path.deduplicate([long, prefix, middle], 'prefix')).toEqual([middle, long]);
+      expect(Path.deduplicate([long, prefix, middle], 'subpath')).toEqual([long]);
+    });
+
+    test('compares similar segments in similar mode', () => {
+      const first = new Path(branchingMachine, [
+        new Segment(branchingMachine, branchingMachine.initialState),
+        new Segment(branchingMachine, branchingMachine.transition(branchingMachine.initialState, { type: 'GO', value: 1 })),
+      ]);
+      const second = new Path(branchingMachine, [
+        new Segment(branchingMachine, branchingMachine.initialState),
+        new Segment(branchingMachine, branchingMachine.transition(branchingMachine.initialState, { type: 'GO', value: 2 })),
+      ]);
+
+      expect(Path.deduplicate([first, second], 'subpath').length).toEqual(2);
+      expect(Path.deduplicate([first, second], 'similar')).toEqual([first]);
+    });
+
+    test('does not reorder the given paths', () => {
+      const paths = [makePath('GO'), makePath('GO', 'GO')];
+
+      Path.deduplicate(paths);
+
+      expect(paths.map(path => path.length)).toEqual([2, 3]);
+    });
+
+    test('handles tens of thousands of paths', () => {
+      const segments = [makePath().firstSegment!];
+      let state = branchingMachine.initialState;
+      for (let i = 0; i < 10; i++) {
+        state = branchingMachine.transition(state, 'GO');
+        segments.push(new Segment(branchingMachine, state));
+      }
+
+      // Every contiguous subpath of one long path, repeated
+      const paths: Path[] = [];
+      while (paths.length < 20000)
+        for (let start = 0; start < segments.length; start++)
+          for (let end = start + 1; end <= segments.length; end++)
+            paths.push(new Path(branchingMachine, segments.slice(start, end)));
+
+      const deduplicated = Path.deduplicate(paths);
+
+      expect(deduplicated.length).toEqual(1);
+      expect(deduplicated[0].length).toEqual(segments.length);
+    });
+  });
+
+  describe('explorePaths', () => {
+    test('returns every path when nothing runs out', async () => {
+      const result = await Path.explorePaths(testMachine);
+
+      expect(result.truncated).toEqual(false);
+      expect(result.paths.map(path => path.description)).toEqual(
+        (await Path.makePaths(testMachine)).map(path => path.description)
+      );
+    });
+
+    test('stops after maxPaths', async () => {
+      const result = await Path.explorePaths(testMachine, { maxPaths: 2 });
+
+      expect(result.paths.length).toEqual(2);
+      expect(result.truncated).toEqual(true);
+      expect(result.reason).toEqual('maxPaths');
+    });
+
+    test('stops after timeBudgetMs', async () => {
+      const slowSource = new EventSource({
+        NEXT: async () => {
+          await new Promise(resolve => setTimeout(resolve, 20));
+          return [{ type: 'NEXT' }];
+        },
+      });
+
+      const result = await Path.explorePaths(testMachine, { eventSource: slowSource, timeBudgetMs: 30, maxLength: 20 });
+
+      expect(result.truncated).toEqual(true);
+      expect(result.reason).toEqual('timeBudget');
+    });
+
+    test('generates no paths with maxPaths 0 or an aborted signal', async () => {
+      const controller = new AbortController();
+      controller.abort();
+
+      const none = await Path.explorePaths(testMachine, { maxPaths: 0 });
+      const aborted = await Path.explorePaths(testMachine, { signal: controller.signal });
+
+      expect(none.paths).toEqual([]);
+      expect(none.reason).toEqual('maxPaths');
+      expect(aborted.paths).toEqual([]);
+      expect(aborted.reason).toEqual('aborted');
+    });
+
+    test('stops waiting for a pending event source when the time budget runs out', async () => {
+      const pendingSource = new EventSource({
+        NEXT: () => new Promise<never>(() => { }),
+      });
+
+      const result = await Path.explorePaths(testMachine, { eventSource: pendingSource, timeBudgetMs: 30 });
+
+      expect(result.truncated).toEqual(true);
+      expect(result.reason).toEqual('timeBudget');
+    });
+
+    test('stops waiting for a pending event source when the signal is aborted', async () => {
+      const controller = new AbortController();
+      const pendingSource = new EventSource({
+        NEXT: () => new Promise<never>(() => { }),
+      });
+      setTimeout(() => controller.abort(), 10);
+
+      const result = await Path.explorePaths(testMachine, { eventSource: pendingSource, signal: controller.signal });
+
+      expect(result.reason).toEqual('aborted');
+    });
+
+    test('stops when the signal is aborted', async () => {
+      const controller = new AbortController();
+
+      const result = await Path.explorePaths(testMachine, {
+        signal: controller.signal,
+        strategy: 'bfs',
+        onProgress: ({ segments }) => segments === 3 && controller.abort(),
+      });
+
+      expect(result.truncated).toEqual(true);
+      expect(result.reason).toEqual('aborted');
+    });
+
+    test('reports progress', async () => {
+      const progress: PathGenerationProgress[] = [];
+
+      await Path.explorePaths(testMachine, { strategy: 'bfs', onProgress: p => progress.push(p) });
+
+      expect(progress.length).toBeGreaterThan(0);
+      expect(progress.map(p => p.segments)).toEqual(progress.map((_, i) => i + 1));
+      expect(progress.map(p => p.depth)).toEqual([...progress.map(p => p.depth)].sort((a, b) => a - b));
+    });
+
+    test('reports the segments waiting on the stack as the depth-first frontier', async () => {
+      const progress: PathGenerationProgress[] = [];
+
+      await Path.explorePaths(testMachine, { onProgress: p => progress.push(p) });
+
+      // NEXT from start; B from middle.a, with NEXT waiting; A from middle.b, with both NEXTs waiting
+      expect(progress.slice(0, 3).map(p => p.frontier)).toEqual([0, 1, 2]);
+    });
+  });
+
+  describe('shortestPaths', () => {
+    test('returns one path for each reachable state', async () => {
+      const paths = await Path.shortestPaths(testMachine);
+      const targets = paths.map(path => path.target);
+
+      expect(targets).toEqual(['start', { middle: 'a' }, { middle: 'b' }, 'end']);
+    });
+
+    test('returns the shortest path to each state', async () => {
+      const paths = await Path.shortestPaths(testMachine);
+      const endPath = paths.find(path => path.target === 'end')!;
+
+      expect(endPath.description).toEqual('xstate.init -> start -> NEXT -> middle.a -> NEXT -> end');
+    });
+
+    test('applies filterPath to the results', async () => {
+      const paths = await Path.shortestPaths(testMachine, { filterPath: path => path.isFinal() });
+
+      expect(paths.length).toEqual(1);
+      expect(paths[0].target).toEqual('end');
+    });
+  });
+
+  describe('pathsTo', () => {
+    const checkoutMachine = createMachine({
+      id: 'checkout-machine',
+      predictableActionArguments: true,
+      initial: 'cart',
+      states: {
+        cart: {
+          on: {
+            CHECKOUT: 'checkout',
+            BROWSE: 'browsing',
+          }
+        },
+        browsing: {
+          on: {
+            BACK: 'cart',
+            CHECKOUT: 'checkout',
+            LEAVE: 'left',
+          }
+        },
+        left: { type: 'final' },
+        checkout: {
+          initial: 'paying',
+          states: {
+            paying: {
+              on: {
+                PAY: 'paid',
+                DECLINE: 'paymentFailed',
+              }
+            },
+            paymentFailed: {
+              tags: ['error'],
+              on: {
+                RETRY: 'paying',
+              }
+            },
+            paid: { type: 'final' },
+          },
+          on: {
+            CANCEL: 'cart',
+          }
+        },
+      }
+    });
+
+    const eventTypes = (path: Path) => path.segments.slice(1).map(segment => segment.event.type);
+
+    test('returns every simple path to a state', async () => {
+      const paths = await Path.pathsTo(checkoutMachine, 'checkout.paymentFailed');
+
+      expect(paths.map(eventTypes)).toEqual([
+        ['CHECKOUT', 'DECLINE'],
+        ['BROWSE', 'CHECKOUT', 'DECLINE'],
+      ]);
+    });
+
+    test('returns the shortest path', async () => {
+      const paths = await Path.pathsTo(checkoutMachine, 'checkout.paymentFailed', { mode: 'shortest' });
+
+      expect(paths.map(eventTypes)).toEqual([['CHECKOUT', 'DECLINE']]);
+    });
+
+    test('accepts state values, tags and predicates', async () => {
+      const byValue = await Path.pathsTo(checkoutMachine, { checkout: 'paymentFailed' }, { mode: 'shortest' });
+      const byTag = await Path.pathsTo(checkoutMachine, 'tag:error', { mode: 'shortest' });
+      const byPredicate = await Path.pathsTo(checkoutMachine, state => state.matches('checkout.paymentFailed'), { mode: 'shortest' });
+
+      expect(byValue.map(eventTypes)).toEqual([['CHECKOUT', 'DECLINE']]);
+      expect(byTag.map(eventTypes)).toEqual([['CHECKOUT', 'DECLINE']]);
+      expect(byPredicate.map(eventTypes)).toEqual([['CHECKOUT', 'DECLINE']]);
+    });
+
+    test('returns the shortest path to each matching state', async () => {
+      const paths = await Path.pathsTo(checkoutMachine, state => state.matches('left') || state.matches('checkout.paid'), { mode: 'shortest' });
+
+      expect(paths.map(eventTypes)).toEqual([['CHECKOUT', 'PAY'], ['BROWSE', 'LEAVE']]);
+    });
+
+    test('does not explore branches that cannot reach the target', async () => {
+      const explored: string[] = [];
+
+      await Path.pathsTo(checkoutMachine, 'checkout.paid', {
+        graph: await StateGraph.build(checkoutMachine),
+        filterSegment: segment => {
+          explored.push(segment.stateDescription);
+          return true;
+        },
+      });
+
+      expect(explored).toContain('browsing');
+      expect(explored).not.toContain('left');
+    });
+
+    test('returns nothing for an unreachable target', async () => {
+      expect(await Path.pathsTo(checkoutMachine, 'missing')).toEqual([]);
+    });
+
+    test('does not prune targets guarded by context that is not in the identity', async () => {
+      const armedMachine = createMachine({
+        id: 'armed-machine',
+        predictableActionArguments: true,
+        initial: 'a',
+        context: { armed: false },
+        states: {
+          a: {
+            on: {
+              SKIP: 'b',
+              ARM: { target: 'b', actions: assign({ armed: true }) },
+            }
+          },
+          b: {
+            on: {
+              GO: [{ target: 'target', cond: (context) => context.armed }, { target: 'other' }],
+            }
+          },
+          target: { type: 'final' },
+          other: { type: 'final' },
+        }
+      });
+
+      const paths = await Path.pathsTo(armedMachine, 'target');
+      const shortest = await Path.pathsTo(armedMachine, 'target', { mode: 'shortest' });
+      const withContext = await Path.pathsTo(armedMachine, 'target', { context: true });
+
+      expect(paths.map(eventTypes)).toEqual([['ARM', 'GO']]);
+      expect(shortest.map(eventTypes)).toEqual([['ARM', 'GO']]);
+      expect(withContext.map(eventTypes)).toEqual([['ARM', 'GO']]);
+    });
+
+    test('does not prune with an incomplete graph', async () => {
+      const incomplete = await StateGraph.build(checkoutMachine, { maxNodes: 2 });
+      const forMachine = vi.spyOn(StateGraph, 'forMachine').mockResolvedValue(incomplete);
+
+      try {
+        const paths = await Path.pathsTo(checkoutMachine, 'checkout.paid', { mode: 'shortest', context: true });
+
+        expect(incomplete.complete).toEqual(false);
+        expect(paths.map(eventTypes)).toEqual([['CHECKOUT', 'PAY']]);
+      } finally {
+        forMachine.mockRestore();
+      }
+    });
+
+    test('only explores the graph up to maxLength', async () => {
+      const counterMachine = createMachine({
+        id: 'counter-machine',
+        predictableActionArguments: true,
+        context: { count: 0 },
+        on: {
+          INC: { actions: assign({ count: (context) => context.count + 1 }) },
+        },
+      });
+      const forMachine = vi.spyOn(StateGraph, 'forMachine');
+
+      try {
+        const paths = await Path.pathsTo(counterMachine, state => state.context.count === 2, { context: true, maxLength: 3 });
+        const graph = await forMachine.mock.results[0].value;
+
+        expect(paths.map(eventTypes)).toEqual([['INC', 'INC']]);
+        expect(graph.nodes.size).toEqual(4);
+      } finally {
+        forMachine.mockRestore();
+      }
+    });
+  });
+
+  describe('coverPaths', () => {
+    test('covers every state node', async () => {
+      const { paths, uncovered } = await Path.coverPaths(testMachine, { criterion: 'states' });
+      const covered = new Set(paths.flatMap(path => path.segments.flatMap(s => s.state.configuration.map(n => n.id))));
+
+      expect(uncovered).toEqual([]);
+      expect(Array.from(covered).sort()).toEqual([...testMachine.stateIds].sort());
+    });
+
+    test('covers every transition', async () => {
+      const { paths, uncovered } = await Path.coverPaths(testMachine, { criterion: 'transitions' });
+      const eventTypes = paths.flatMap(path => path.segments.map(s => s.event.type));
+
+      expect(uncovered).toEqual([]);
+      expect(eventTypes).toContain('A');
+      expect(eventTypes).toContain('B');
+    });
+
+    test('covers transitions into states with eventless transitions', async () => {
+      const alwaysMachine = createMachine({
+        id: 'm',
+        predictableActionArguments: true,
+        initial: 'idle',
+        context: { count: 0 },
+        states: {
+          idle: {
+            always: { target: 'timedOut', cond: context => context.count >= 1 },
+            on: { INC: { actions: assign({ count: context => context.count + 1 }) } },
+          },
+          timedOut: {
+            on: { RETRY: { target: 'idle', actions: assign({ count: 0 }) } },
+          },
+        },
+      });
+
+      const { paths, uncovered } = await Path.coverPaths(alwaysMachine, { criterion: 'transitions' });
+
+      expect(uncovered).toEqual([]);
+      expect(paths.map(path => path.segments.map(s => s.event.type))).toEqual([['xstate.init', 'INC', 'RETRY']]);
+    });
+
+    test('covers states passed through on eventless transitions', async () => {
+      const checkMachine = createMachine({
+        id: 'm',
+        predictableActionArguments: true,
+        initial: 'idle',
+        states: {
+          idle: { on: { SUBMIT: 'check' } },
+          check: { always: 'done' },
+          done: { type: 'final' },
+        }
+      });
+
+      const { uncovered } = await Path.coverPaths(checkMachine, { criterion: 'states' });
+
+      expect(uncovered).toEqual([]);
+    });
+
+    test('covers every event type', async () => {
+      const { uncovered } = await Path.coverPaths(testMachine, { criterion: 'events' });
+
+      expect(uncovered).toEqual([]);
+    });
+
+    test('lists items it could not cover within maxLength', async () => {
+      const { uncovered } = await Path.coverPaths(testMachine, { criterion: 'states', maxLength: 2 });
+
+      expect(uncovered.sort()).toEqual(['test-machine.end', 'test-machine.middle.b']);
+    });
+  });
+
+  describe('randomWalk', () => {
+    test('returns the same path for the same seed', async () => {
+      const first = await Path.randomWalk(testMachine, { seed: 42 });
+      const second = await Path.randomWalk(testMachine, { seed: 42 });
+
+      expect(first.description).toEqual(second.description);
+    });
+
+    test('stops at maxLength', async () => {
+      const path = await Path.randomWalk(testMachine, { seed: 42, maxLength: 3 });
+
+      expect(path.length).toBeLessThanOrEqual(3);
+    });
+
+    test('stops at a final state', async () => {
+      const path = await Path.randomWalk(testMachine, { seed: 1, maxLength: 100 });
+
+      expect(path.isFinal()).toEqual(true);
+    });
+  });
+
+  describe('randomWalks', () => {
+    test('returns the given number of walks', async () => {
+      const paths = await Path.randomWalks(testMachine, { seed: 42, walks: 5 });
+
+      expect(paths.length).toEqual(5);
+    });
+
+    test('uses seed + i for walk i', async () => {
+      const paths = await Path.randomWalks(testMachine, { seed: 42, walks: 5 });
+      const fifthPath = await Path.randomWalk(testMachine, { seed: 46 });
+
+      expect(paths[4].description).toEqual(fifthPath.description);
+    });
+  });
+
+  describe('probability', () => {
+    test('is the same for every generator without weights', async () => {
+      const paths = await Path.makePaths(testMachine);
+      const walk = await Path.randomWalk(testMachine, { seed: 1, maxLength: 100 });
+      const path = paths.find(path => path.description === walk.description)!;
+      const loaded = Path.fromJSON(testMachine, JSON.parse(JSON.stringify(path)));
+
+      expect(path.probability).toBeLessThan(1);
+      expect(walk.probability).toEqual(path.probability);
+      expect(loaded.probability).toEqual(path.probability);
+    });
+
+    test('is the product of the segment probabilities', async () => {
+      const eventSource = new EventSource({
+        B: { weight: 1 },
+        NEXT: { weight: 3 },
+      });
+
+      const paths = await Path.makePaths(testMachine, { eventSource });
+      const directPath = paths.find(path => path.length === 3)!;
+
+      expect(directPath.probability).toEqual(0.75);
+    });
+
+    test('is used to pick events during random walks', async () => {
+      const eventSource = new EventSource({
+        B: { weight: 0 },
+      });
+
+      const paths = await Path.randomWalks(testMachine, { eventSource, walks: 10 });
+
+      expect(paths.every(path => path.length === 3)).toEqual(true);
+    });
+  });
+
+  describe('generateNextPaths', () => {
+    test('passes the path so far to the event source', async () => {
+      const seenLengths: number[] = [];
+      const eventSource = new EventSource({
+        NEXT: (_, path) => {
+          seenLengths.push(path!.length);
+          return [{ type: 'NEXT' }];
+        },
+      });
+
+      await Path.makePaths(testMachine, { eventSource });
+
+      expect(seenLengths).toContain(1);
+      expect(seenLengths).toContain(2);
+    });
+  });
+
+  describe('toJSON', () => {
+    test('saves the event and state value of each segment', async () => {
+      const eventSource = new EventSource({ B: { weight: 1 } });
+      const [path] = await Path.makePaths(testMachine, { maxLength: 3, eventSource });
+
+      expect(path.toJSON()).toEqual({
+        segments: [
+          { event: { type: 'xstate.init' }, state: 'start' },
+          { event: { type: 'NEXT' }, state: { middle: 'a' } },
+          { event: { type: 'NEXT' }, state: 'end', probability: 0.5 },
+        ]
+      });
+    });
+  });
+
+  describe('fromJSON', () => {
+    test('rebuilds a saved path', async () => {
+      const paths = await Path.makePaths(testMachine);
+
+      for (const path of paths) {
+        const loaded = Path.fromJSON(testMachine, JSON.parse(JSON.stringify(path)));
+        expect(loaded.matches(path)).toEqual(true);
+      }
+    });
+
+    test('throws if a state no longer matches', () => {
+      const data = {
+        segments: [
+          { event: { type: 'xstate.init' }, state: 'start' },
+          { event: { type: 'NEXT' }, state: 'end' },
+        ]
+      };
+
+      expect(() => Path.fromJSON(testMachine, data)).toThrow(PathLoadError);
+    });
+  });
+
+  describe('savePaths and loadPaths', () => {
+    test('save and reload a set of paths', async () => {
+      const paths = await Path.makePaths(testMachine);
+
+      const loaded = Path.loadPaths(testMachine, Path.savePaths(paths));
+
+      expect(loaded.map(path => path.description)).toEqual(paths.map(path => path.description));
+    });
+
+    test('throws if the paths were saved for another machine', () => {
+      const data = { machine: 'other-machine', paths: [] };
+
+      expect(() => Path.loadPaths(testMachine, data)).toThrow(PathLoadError);
+    });
+  });
+
+  describe('validate', () => {
+    const changedMachine = createMachine({
+      id: 'test-machine',
+      predictableActionArguments: true,
+      initial: 'start',
+      states: {
+        start: {
+          on: {
+            NEXT: 'end'
+          }
+        },
+        end: {
+          type: 'final'
+        }
+      }
+    });
+
+    test('returns valid for a path that still replays', async () => {
+      const [path] = await Path.makePaths(testMachine);
+
+      const result = path.validate();
+
+      expect(result.valid).toEqual(true);
+      expect(result.actualState.value).toEqual(path.target);
+    });
+
+    test('reports a state mismatch', async () => {
+      const [path] = await Path.makePaths(testMachine);
+
+      const result = path.validate(changedMachine);
+
+      expect(result.valid).toEqual(false);
+      expect(result.failedSegmentIndex).toEqual(1);
+      expect(result.reason).toEqual('state-mismatch');
+      expect(result.expectedState).toEqual({ middle: 'a' });
+      expect(result.actualState.value).toEqual('end');
+    });
+
+    test('reports an event that is no longer accepted', async () => {
+      const paths = await Path.makePaths(testMachine);
+      const pathWithB = paths.find(path => path.segments.some(s => s.event.type === 'B'))!;
+      const data = pathWithB.toJSON();
+      data.segments[1] = { event: { type: 'NEXT' }, state: 'end' };
+
+      const [result] = Path.validatePaths(changedMachine, [data]);
+
+      expect(result.valid).toEqual(false);
+      expect(result.failedSegmentIndex).toEqual(2);
+      expect(result.reason).toEqual('event-not-accepted');
+      expect(result.actualState.value).toEqual('end');
+    });
+  });
+
+  describe('validatePaths', () => {
+    test('accepts events that lead to states with eventless transitions', async () => {
+      const alwaysMachine = createMachine({
+        id: 'always-machine',
+        predictableActionArguments: true,
+        initial: 'idle',
+        context: { expired: false },
+        states: {
+          idle: {
+            always: { target: 'expired', cond: context => context.expired },
+            on: { STOP: 'stopped' },
+          },
+          stopped: {
+            on: { RESUME: 'idle' },
+          },
+          expired: {
+            type: 'final',
+          },
+        },
+      });
+      const paths = await Path.makePaths(alwaysMachine, { filterPath: () => true, maxLength: 3 });
+      const resumed = paths.find(path => path.lastSegment?.event.type === 'RESUME')!;
+
+      const results = Path.validatePaths(alwaysMachine, [resumed, resumed.toJSON()]);
+
+      expect(resumed.description).toContain('RESUME -> idle');
+      expect(results.map(result => result.valid)).toEqual([true, true]);
+    });
+
+    test('returns one result per path', async () => {
+      const paths = await Path.makePaths(testMachine);
+
+      const results = Path.validatePaths(testMachine, [...paths, paths[0].toJSON()]);
+
+      expect(results.length).toEqual(paths.length + 1);
+      expect(results.every(result => result.valid)).toEqual(true);
+    });
+  });
+
+  describe('context in state identity', () => {
+    const counterMachine = createMachine({
+      id: 'counter-machine',
+      predictableActionArguments: true,
+      initial: 'counting',
+      context: { count: 0, updatedAt: 0 },
+      states: {
+        counting: {
+          on: {
+            ADD: {
+              cond: (context) => context.count < 2,
+              actions: assign({ count: (context) => context.count + 1, updatedAt: () => Date.now() }),
+            },
+            SUBMIT: 'submitted',
+          }
+        },
+        submitted: { type: 'final' },
+      }
+    });
+
+    const countOnly = (context: { count: number }) => ({ count: context.count });
+
+    test('ignores context by default', async () => {
+      const paths = await Path.shortestPaths(counterMachine);
+
+      expect(paths.map(path => path.targetDescription)).toEqual(['"counting"', '"submitted"']);
+    });
+
+    test('applies the options to paths extended with generateNextPaths', async () => {
+      const path = new Path(counterMachine);
+
+      const nextPaths = await arrayFromAsyncGenerator(path.generateNextPaths({
+        context: countOnly,
+        filterPath: () => true,
+        maxLength: 2,
+      }));
+
+      expect(nextPaths.map(path => path.lastSegment!.stateDescription)).toEqual([
+        'counting {"count":1}',
+        'submitted {"count":0}',
+      ]);
+    });
+
+    test('treats states with different context as different', async () => {
+      const paths = await Path.shortestPaths(counterMachine, { context: countOnly });
+
+      expect(paths.map(path => path.targetDescription)).toEqual([
+        '"counting" {"count":0}',
+        '"counting" {"count":1}',
+        '"submitted" {"count":0}',
+        '"counting" {"count":2}',
+        '"submitted" {"count":1}',
+        '"submitted" {"count":2}',
+      ]);
+    });
+
+    test('includes context in descriptions', async () => {
+      const paths = await Path.makePaths(counterMachine, { context: countOnly });
+
+      expect(paths.map(path => path.description)).toContain(
+        'xstate.init -> counting {"count":0} -> ADD -> counting {"count":1} -> SUBMIT -> submitted {"count":1}'
+      );
+    });
+
+    test('keeps paths that only differ by context when deduplicating', async () => {
+      const withoutContext = await Path.makePaths(counterMachine, { deduplicate: true });
+      const withContext = await Path.makePaths(counterMachine, { deduplicate: true, context: countOnly });
+
+      expect(withContext.length).toBeGreaterThan(withoutContext.length);
+    });
+
+    test('applies to loaded paths', async () => {
+      const [path] = await Path.makePaths(counterMachine, { context: countOnly, filterPath: path => path.length === 2 });
+
+      const loaded = Path.fromJSON(counterMachine, path.toJSON(), { context: countOnly });
+
+      expect(loaded.matches(path)).toEqual(true);
+      expect(loaded.lastSegment?.contextDescription).toEqual(path.lastSegment?.contextDescription);
+    });
+  });
+
+  describe('includes', () => {
+    test('compares whole segments', async () => {
+      const [path] = await Path.makePaths(testMachine, { filterPath: path => path.length === 3 });
+      const subpath = new Path(testMachine, path.segments.slice(1));
+      const other = new Path(testMachine, [path.segments[2], path.segments[1]]);
+
+      expect(path.includes(path)).toEqual(true);
+      expect(path.includes(subpath)).toEqual(true);
+      expect(path.includes(other)).toEqual(false);
+      expect(subpath.includes(path)).toEqual(false);
+    });
+  });
+
+  describe('payload normalizers', () => {
+    let timestamp = 0;
+    const eventSource = new EventSource({
+      NEXT: () => [
+        { type: 'NEXT', value: 'foo', timestamp: ++timestamp },
+        { type: 'NEXT', value: 'foo', timestamp: ++timestamp },
+      ],
+    });
+
+    test('deduplicates paths that only differ by ignored keys', async () => {
+      const withoutTimestamps = await Path.makePaths(testMachine, {
+        eventSource: new EventSource({ NEXT: [{ type: 'NEXT', value: 'foo' }] }),
+        deduplicate: true,
+      });
+      const withoutNormalizers = await Path.makePaths(testMachine, { eventSource, deduplicate: true });
+      const withNormalizers = await Path.makePaths(testMachine, {
+        eventSource,
+        deduplicate: true,
+        normalizers: { NEXT: ignoreKeys('timestamp') },
+      });
+
+      expect(withoutNormalizers.length).toBeGreaterThan(withoutTimestamps.length);
+      expect(withNormalizers.map(path => path.description)).toEqual(withoutTimestamps.map(path => path.description));
+    });
+  });
+});
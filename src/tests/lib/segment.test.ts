@@ -1,6 +1,6 @@
 import { describe, test, expect, vi } from "vitest";
-import { EventSource, Segment, arrayFromAsyncGenerator } from "@/lib";
-import { createMachine } from "xstate";
+import { EventSource, Segment, arrayFromAsyncGenerator, ignoreKeys, sortKeys } from "@/lib";
+import { assign, createMachine } from "xstate";
 
 
 const testMachine = createMachine({
@@ -80,6 +80,25 @@ describe("Segment", () => {
         expect(nextSegments[0].event.type).toEqual('B');
         expect(nextSegments[1].event.type).toEqual('NEXT');
       });
+
+      test('only collects the events of one type at a time from unweighted sources', async () => {
+        let generated = 0;
+        const eventSource = new EventSource({
+          B: [{ type: 'B', index: 0 }, { type: 'B', index: 1 }],
+          NEXT: function* () {
+            for (; ; generated++)
+              yield { type: 'NEXT' };
+          },
+        });
+
+        const nextSegments = middleSegment.generateNextSegments(eventSource);
+        const { value: first } = await nextSegments.next();
+        await nextSegments.return(undefined);
+
+        expect(first!.event).toEqual({ type: 'B', index: 0 });
+        expect(first!.probability).toEqual(0.25);
+        expect(generated).toEqual(0);
+      });
   });
 
 
@@ -110,6 +129,75 @@ describe("Segment", () => {
     });
   });
 
+  describe('eventDescription with normalizers', () => {
+    const normalizers = {
+      NEXT: ignoreKeys('timestamp'),
+      '*': sortKeys,
+    };
+
+    const stateWith = (event: Record<string, unknown>) => testMachine.transition(testMachine.initialState, { type: 'NEXT', ...event });
+
+    test('normalizes the event data', () => {
+      const segment = new Segment(testMachine, stateWith({ b: 1, a: 2, timestamp: 1 }), 1, { normalizers });
+
+      expect(segment.eventDescription).toEqual('NEXT {"a":2,"b":1}');
+    });
+
+    test('omits data that normalizes to an empty object', () => {
+      const segment = new Segment(testMachine, stateWith({ timestamp: 1 }), 1, { normalizers });
+
+      expect(segment.eventDescription).toEqual('NEXT');
+    });
+
+    test('matches segments with the same normalized data', () => {
+      const first = new Segment(testMachine, stateWith({ a: 1, b: 2, timestamp: 1 }), 1, { normalizers });
+      const second = new Segment(testMachine, stateWith({ b: 2, a: 1, timestamp: 2 }), 1, { normalizers });
+      const different = new Segment(testMachine, stateWith({ a: 2, b: 2, timestamp: 1 }), 1, { normalizers });
+
+      expect(first.matches(second)).toEqual(true);
+      expect(first.matches(different)).toEqual(false);
+      expect(first.isSimilar(different)).toEqual(true);
+    });
+
+    test('does not match without normalizers', () => {
+      const first = new Segment(testMachine, stateWith({ a: 1, timestamp: 1 }));
+      const second = new Segment(testMachine, stateWith({ a: 1, timestamp: 2 }));
+
+      expect(first.matches(second)).toEqual(false);
+    });
+  });
+
+  describe('eventDescription for delayed transitions', () => {
+    const delayedMachine = createMachine({
+      id: 'delayed-machine',
+      predictableActionArguments: true,
+      initial: 'waiting',
+      states: {
+        waiting: {
+          after: {
+            3000: 'timedOut',
+            slow: 'timedOut'
+          }
+        },
+        timedOut: {}
+      }
+    }, { delays: { slow: 5000 } });
+
+    test('describes numeric delays', () => {
+      const state = delayedMachine.transition(delayedMachine.initialState, 'xstate.after(3000)#delayed-machine.waiting');
+      const segment = new Segment(delayedMachine, state);
+
+      expect(segment.description).toEqual('wait 3000ms -> timedOut');
+    });
+
+    test('describes named delays', () => {
+      const state = delayedMachine.transition(delayedMachine.initialState, 'xstate.after(slow)#delayed-machine.waiting');
+      const segment = new Segment(delayedMachine, state);
+
+      expect(segment.eventDescription).toEqual('wait slow');
+    });
+  });
+
   describe('stateDescription', () => {
     const middleState = testMachine.transition(testMachine.initialState, 'NEXT');    
     const middleSegment = new Segment(testMachine, middleState);
@@ -221,6 +309,63 @@ describe("Segment", () => {
     });
   });
 
+  describe('context in state identity', () => {
+    const counterMachine = createMachine({
+      id: 'counter-machine',
+      predictableActionArguments: true,
+      initial: 'counting',
+      context: { count: 0 },
+      states: {
+        counting: {
+          on: {
+            ADD: { actions: assign({ count: (context) => context.count + 1 }) },
+          }
+        },
+      }
+    });
+
+    const initialState = counterMachine.initialState;
+    const addedState = counterMachine.transition(initialState, 'ADD');
+
+    test('ignores context by default', () => {
+      const initialSegment = new Segment(counterMachine, initialState);
+      const addedSegment = new Segment(counterMachine, addedState);
+
+      expect(addedSegment.stateDescription).toEqual('counting');
+      expect(addedSegment.contextDescription).toBeUndefined();
+      expect(addedSegment.hasSameTarget(initialSegment)).toEqual(true);
+      expect(addedSegment.reachesState(initialState)).toEqual(true);
+    });
+
+    test('compares all of the context', () => {
+      const options = { context: true };
+      const initialSegment = new Segment(counterMachine, initialState, 1, options);
+      const addedSegment = new Segment(counterMachine, addedState, 1, options);
+
+      expect(addedSegment.stateDescription).toEqual('counting {"count":1}');
+      expect(addedSegment.hasSameTarget(initialSegment)).toEqual(false);
+      expect(addedSegment.reachesState(initialState)).toEqual(false);
+      expect(addedSegment.reachesState(addedState)).toEqual(true);
+    });
+
+    test('compares a projection of the context', () => {
+      const options = { context: (context: { count: number }) => context.count > 5 };
+      const initialSegment = new Segment(counterMachine, initialState, 1, options);
+      const addedSegment = new Segment(counterMachine, addedState, 1, options);
+
+      expect(addedSegment.stateDescription).toEqual('counting false');
+      expect(addedSegment.isSimilar(initialSegment)).toEqual(false);
+      expect(addedSegment.hasSameTarget(initialSegment)).toEqual(true);
+    });
+
+    test('passes its options to the next segments', async () => {
+      const segment = new Segment(counterMachine, initialState, 1, { context: true });
+      const [nextSegment] = await arrayFromAsyncGenerator(segment.generateNextSegments());
+
+      expect(nextSegment.stateDescription).toEqual('counting {"count":1}');
+    });
+  });
+
   describe('isFinal', () => {
     const middleState = testMachine.transition(testMachine.initialState, 'NEXT');
     const middleSegment = new Segment(testMachine, middleState);
@@ -236,4 +381,20 @@ describe("Segment", () => {
       expect(endSegment.isFinal()).toEqual(true);
     });
   });
-});
\ No newline at end of file
+
+  describe('toJSON', () => {
+    const middleState = testMachine.transition(testMachine.initialState, { type: 'NEXT', foo: 'bar' });
+
+    test('returns the event and state value', () => {
+      const segment = new Segment(testMachine, middleState);
+
+      expect(segment.toJSON()).toEqual({ event: { type: 'NEXT', foo: 'bar' }, state: { middle: 'a' } });
+    });
+
+    test('includes the probability if it isn\'t 1', () => {
+      const segment = new Segment(testMachine, middleState, 0.5);
+
+      expect(segment.toJSON().probability).toEqual(0.5);
+    });
+  });
+});
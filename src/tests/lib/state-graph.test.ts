@@ -0,0 +1,237 @@
+import { describe, test, expect } from 'vitest';
+import { EventSource, Path, StateGraph, getGraphCoverage } from '@/lib';
+import { assign, createMachine } from 'xstate';
+
+const testMachine = createMachine({
+  id: 'test-machine',
+  predictableActionArguments: true,
+  initial: 'start',
+  states: {
+    start: {
+      on: {
+        NEXT: 'middle'
+      }
+    },
+    middle: {
+      initial: 'a',
+      states: {
+        a: {
+          on: {
+            B: 'b'
+          }
+        },
+        b: {
+          on: {
+            A: 'a',
+          }
+        }
+      },
+      on: {
+        NEXT: 'end'
+      }
+    },
+    end: {
+      type: 'final'
+    },
+    unreachable: {},
+  }
+});
+
+
+describe('StateGraph', () => {
+  describe('build', () => {
+    test('finds every reachable state', async () => {
+      const graph = await StateGraph.build(testMachine);
+
+      expect(Array.from(graph.nodes.keys())).toEqual(['"start"', '{"middle":"a"}', '{"middle":"b"}', '"end"']);
+      expect(graph.complete).toEqual(true);
+    });
+
+    test('finds every transition', async () => {
+      const graph = await StateGraph.build(testMachine);
+
+      expect(Array.from(graph.edges.values(), edge => `${edge.source} ${edge.segment.eventDescription} ${edge.target}`)).toEqual([
+        '"start" NEXT {"middle":"a"}',
+        '{"middle":"a"} B {"middle":"b"}',
+        '{"middle":"a"} NEXT "end"',
+        '{"middle":"b"} A {"middle":"a"}',
+        '{"middle":"b"} NEXT "end"',
+      ]);
+    });
+
+    test('memoizes edges by event description', async () => {
+      const eventSource = new EventSource({
+        NEXT: [{ type: 'NEXT' }, { type: 'NEXT' }, { type: 'NEXT', value: 1 }],
+      });
+
+      const graph = await StateGraph.build(testMachine, { eventSource });
+
+      expect(graph.getOutDegree(graph.initialNode.id)).toEqual(2);
+    });
+
+    test('stops at maxNodes', async () => {
+      const graph = await StateGraph.build(testMachine, { maxNodes: 2 });
+
+      expect(graph.nodes.size).toEqual(2);
+      expect(graph.complete).toEqual(false);
+    });
+
+    test('stops at maxDepth', async () => {
+      const graph = await StateGraph.build(testMachine, { maxDepth: 1 });
+
+      expect(Array.from(graph.nodes.keys())).toEqual(['"start"', '{"middle":"a"}']);
+      expect(graph.getOutDegree('{"middle":"a"}')).toEqual(0);
+      expect(graph.complete).toEqual(true);
+    });
+
+    test('includes context in node identity', async () => {
+      const counterMachine = createMachine({
+        id: 'counter-machine',
+        predictableActionArguments: true,
+        initial: 'counting',
+        context: { count: 0 },
+        states: {
+          counting: {
+            on: {
+              ADD: {
+                cond: (context) => context.count < 3,
+                actions: assign({ count: (context) => context.count + 1 }),
+              },
+            }
+          },
+        }
+      });
+
+      const withoutContext = await StateGraph.build(counterMachine);
+      const withContext = await StateGraph.build(counterMachine, { context: true });
+
+      expect(withoutContext.nodes.size).toEqual(1);
+      expect(withContext.nodes.size).toEqual(4);
+    });
+  });
+
+  describe('forMachine', () => {
+    test('builds the graph once', async () => {
+      const eventSource = new EventSource();
+
+      const first = await StateGraph.forMachine(testMachine, { eventSource });
+      const second = await StateGraph.forMachine(testMachine, { eventSource });
+      const other = await StateGraph.forMachine(testMachine);
+
+      expect(second).toBe(first);
+      expect(other).not.toBe(first);
+    });
+
+    test('only keeps the last graph for each machine', async () => {
+      const eventSource = new EventSource();
+
+      const first = await StateGraph.forMachine(testMachine, { eventSource });
+      await StateGraph.forMachine(testMachine, { eventSource: new EventSource() });
+      const third = await StateGraph.forMachine(testMachine, { eventSource });
+
+      expect(third).not.toBe(first);
+      expect(await StateGraph.forMachine(testMachine, { eventSource })).toBe(third);
+    });
+  });
+
+  describe('degrees and adjacency', () => {
+    test('counts the edges of each node', async () => {
+      const graph = await StateGraph.build(testMachine);
+
+      expect(graph.getOutDegree('{"middle":"a"}')).toEqual(2);
+      expect(graph.getInDegree('{"middle":"a"}')).toEqual(2);
+      expect(graph.getOutDegree('"end"')).toEqual(0);
+      expect(graph.getInDegree('"end"')).toEqual(2);
+    });
+
+    test('lists successors and predecessors', async () => {
+      const graph = await StateGraph.build(testMachine);
+
+      expect(graph.getSuccessors('{"middle":"a"}')).toEqual(['{"middle":"b"}', '"end"']);
+      expect(graph.getPredecessors('"end"')).toEqual(['{"middle":"a"}', '{"middle":"b"}']);
+      expect(graph.getAdjacency().get('"start"')).toEqual(['{"middle":"a"}']);
+    });
+
+    test('finds the nodes that can reach a node', async () => {
+      const graph = await StateGraph.build(testMachine);
+
+      expect(Array.from(graph.getNodesReaching(['{"middle":"b"}'])).sort()).toEqual(['"start"', '{"middle":"a"}', '{"middle":"b"}']);
+      expect(Array.from(graph.getNodesReaching(['"start"']))).toEqual(['"start"']);
+    });
+
+    test('finds the node for a state', async () => {
+      const graph = await StateGraph.build(testMachine);
+      const middleState = testMachine.transition(testMachine.initialState, 'NEXT');
+
+      expect(graph.getNode(middleState)?.id).toEqual('{"middle":"a"}');
+      expect(graph.getNode(testMachine.transition(middleState, 'NEXT'))?.id).toEqual('"end"');
+    });
+  });
+
+  describe('path generation', () => {
+    test('generates the same paths as the machine', async () => {
+      const paths = await Path.makePaths(testMachine);
+      const graphPaths = await Path.makePaths(testMachine, { graph: true });
+
+      expect(graphPaths.map(path => path.description)).toEqual(paths.map(path => path.description));
+    });
+
+    test('generates the same paths as the machine when context is in the identity', async () => {
+      const doorMachine = createMachine({
+        id: 'door-machine',
+        predictableActionArguments: true,
+        initial: 'closed',
+        context: { hasKey: false },
+        states: {
+          closed: {
+            on: {
+              TAKE_KEY: {
+                cond: (context) => !context.hasKey,
+                actions: assign({ hasKey: true }),
+              },
+              OPEN: {
+                cond: (context) => context.hasKey,
+                target: 'open',
+              },
+            }
+          },
+          open: {
+            type: 'final'
+          },
+        }
+      });
+
+      const paths = await Path.makePaths(doorMachine, { context: true });
+      const graphPaths = await Path.makePaths(doorMachine, { context: true, graph: true });
+      const withoutContext = await Path.makePaths(doorMachine, { graph: true });
+
+      expect(paths.length).toBeGreaterThan(0);
+      expect(graphPaths.map(path => path.description)).toEqual(paths.map(path => path.description));
+      expect(withoutContext).toEqual([]);
+    });
+
+    test('shares segments between paths', async () => {
+      const graph = await StateGraph.build(testMachine);
+      const paths = await Path.makePaths(testMachine, { graph });
+
+      const [first, second] = paths;
+      expect(second.segments[1]).toBe(first.segments[1]);
+    });
+
+    test('finds the same shortest paths as the machine', async () => {
+      const paths = await Path.shortestPaths(testMachine);
+      const graphPaths = await Path.shortestPaths(testMachine, { graph: true });
+
+      expect(graphPaths.map(path => path.description)).toEqual(paths.map(path => path.description));
+    });
+  });
+
+  describe('getGraphCoverage', () => {
+    test('returns the reachable states', async () => {
+      const graph = await StateGraph.build(testMachine);
+
+      expect(getGraphCoverage(graph, 'states').has('test-machine.end')).toEqual(true);
+      expect(getGraphCoverage(graph, 'states').has('test-machine.unreachable')).toEqual(false);
+    });
+  });
+});
@@ -0,0 +1,44 @@
+import { describe, test, expect } from 'vitest';
+import { matchesTarget } from '@/lib';
+import { createMachine } from 'xstate';
+
+const testMachine = createMachine({
+  id: 'test-machine',
+  predictableActionArguments: true,
+  initial: 'checkout',
+  context: { attempts: 3 },
+  states: {
+    checkout: {
+      initial: 'paymentFailed',
+      states: {
+        paymentFailed: {
+          tags: ['error'],
+        },
+      }
+    },
+  }
+});
+
+
+describe('targets', () => {
+  describe('matchesTarget', () => {
+    const state = testMachine.initialState;
+
+    test('matches state values and strings', () => {
+      expect(matchesTarget(state, 'checkout')).toEqual(true);
+      expect(matchesTarget(state, 'checkout.paymentFailed')).toEqual(true);
+      expect(matchesTarget(state, { checkout: 'paymentFailed' })).toEqual(true);
+      expect(matchesTarget(state, 'cart')).toEqual(false);
+    });
+
+    test('matches tags', () => {
+      expect(matchesTarget(state, 'tag:error')).toEqual(true);
+      expect(matchesTarget(state, 'tag:loading')).toEqual(false);
+    });
+
+    test('matches predicates', () => {
+      expect(matchesTarget(state, state => state.context.attempts > 2)).toEqual(true);
+      expect(matchesTarget(state, state => state.context.attempts > 5)).toEqual(false);
+    });
+  });
+});
@@ -0,0 +1,113 @@
+import { describe, test, expect, vi } from 'vitest';
+import { Path, TestRunner } from '@/lib';
+import { createMachine } from 'xstate';
+
+const testMachine = createMachine({
+  id: 'test-machine',
+  preserveActionOrder: true,
+  predictableActionArguments: true,
+  initial: 'start',
+  states: {
+    start: {
+      on: {
+        'form.open': 'form'
+      }
+    },
+    form: {
+      initial: 'editing',
+      tags: ['busy'],
+      states: {
+        editing: {
+          meta: {
+            test: vi.fn()
+          },
+          on: {
+            'form.submit': 'submitting'
+          }
+        },
+        submitting: {
+          on: {
+            'form.done': '#test-machine.end'
+          }
+        }
+      }
+    },
+    end: {
+      type: 'final'
+    }
+  }
+});
+
+
+describe('TestRunner', () => {
+  describe('state callbacks', () => {
+    test('are called for exact state ids', async () => {
+      const [path] = await Path.makePaths(testMachine);
+      const onEditing = vi.fn();
+
+      await new TestRunner({}, { 'form.editing': onEditing }).run(path);
+
+      expect(onEditing).toHaveBeenCalledTimes(1);
+    });
+
+    test('are called for glob patterns', async () => {
+      const [path] = await Path.makePaths(testMachine);
+      const onFormChild = vi.fn();
+
+      await new TestRunner({}, { 'form.*': onFormChild }).run(path);
+
+      expect(onFormChild.mock.calls.map(([state]) => state.value)).toEqual([
+        { form: 'editing' },
+        { form: 'submitting' },
+      ]);
+    });
+
+    test('are called for tags', async () => {
+      const [path] = await Path.makePaths(testMachine);
+      const onBusy = vi.fn();
+
+      await new TestRunner({}, { 'tag:busy': onBusy }).run(path);
+
+      expect(onBusy).toHaveBeenCalledTimes(2);
+    });
+  });
+
+  describe('event callbacks', () => {
+    test('are called for glob patterns', async () => {
+      const [path] = await Path.makePaths(testMachine);
+      const onFormEvent = vi.fn();
+
+      await new TestRunner({ 'form.*': onFormEvent }, {}).run(path);
+
+      expect(onFormEvent.mock.calls.map(([state]) => state.event.type)).toEqual([
+        'form.open',
+        'form.submit',
+        'form.done',
+      ]);
+    });
+  });
+
+  describe('meta tests', () => {
+    const metaTest = testMachine.getStateNodeById('test-machine.form.editing').meta.test;
+
+    test('are not run by default', async () => {
+      const [path] = await Path.makePaths(testMachine);
+      metaTest.mockClear();
+
+      await new TestRunner({}, {}).run(path);
+
+      expect(metaTest).not.toHaveBeenCalled();
+    });
+
+    test('are run with the metaTests option, with the context before the state', async () => {
+      const [path] = await Path.makePaths(testMachine);
+      metaTest.mockClear();
+
+      await new TestRunner<[string]>({}, {}, { metaTests: true }).run(path, 'context');
+
+      expect(metaTest).toHaveBeenCalledTimes(1);
+      expect(metaTest.mock.calls[0][0]).toEqual('context');
+      expect(metaTest.mock.calls[0][1].value).toEqual({ form: 'editing' });
+    });
+  });
+});
@@ -0,0 +1,66 @@
+import { describe, test, expect } from 'vitest';
+import { coveringArray } from '@/lib/util/covering-array';
+
+/**
+ * Returns true if every combination of values from any `strength` lists appears in
+ * some row.
+ */
+function coversAll(valueLists: unknown[][], rows: unknown[][], strength: number) {
+  const positions = valueLists.map((_, position) => position);
+  const positionSets: number[][] = strength === 2
+    ? positions.flatMap(a => positions.filter(b => b > a).map(b => [a, b]))
+    : positions.flatMap(a => positions.filter(b => b > a).flatMap(b => positions.filter(c => c > b).map(c => [a, b, c])));
+
+  return positionSets.every(set => {
+    const combinations = set.reduce<unknown[][]>(
+      (combos, position) => combos.flatMap(combo => valueLists[position].map(value => [...combo, value])),
+      [[]]
+    );
+
+    return combinations.every(combination =>
+      rows.some(row => set.every((position, i) => row[position] === combination[i]))
+    );
+  });
+}
+
+describe('util', () => {
+  describe('coveringArray', () => {
+    const valueLists = Array.from({ length: 5 }, (_, field) => [0, 1, 2, 3].map(value => `${field}.${value}`));
+
+    test('covers every pair of values', () => {
+      const rows = coveringArray(valueLists);
+
+      expect(coversAll(valueLists, rows, 2)).toBe(true);
+      expect(rows.length).toBeLessThan(40);
+    });
+
+    test('covers every triple of values', () => {
+      const rows = coveringArray(valueLists, 3);
+
+      expect(coversAll(valueLists, rows, 3)).toBe(true);
+      expect(rows.length).toBeLessThan(4 ** 5);
+    });
+
+    test('takes one value from every list in each row', () => {
+      const rows = coveringArray(valueLists);
+
+      for (const row of rows)
+        expect(row.map((value, position) => valueLists[position].includes(value))).toEqual([true, true, true, true, true]);
+    });
+
+    test('returns the full product if strength is at least the number of lists', () => {
+      const rows = coveringArray<unknown>([[1, 2], ['a', 'b'], [true, false]], 3);
+
+      expect(rows).toHaveLength(8);
+      expect(new Set(rows.map(row => JSON.stringify(row))).size).toBe(8);
+    });
+
+    test('returns the same rows for the same input', () => {
+      expect(coveringArray(valueLists)).toEqual(coveringArray(valueLists));
+    });
+
+    test('returns no rows if any list is empty', () => {
+      expect(coveringArray([[1, 2], [], [3]])).toEqual([]);
+    });
+  });
+});
@@ -0,0 +1,33 @@
+import { describe, test, expect } from 'vitest';
+import { isGlobPattern, matchesGlob } from '@/lib/util/glob';
+
+describe('util', () => {
+  describe('isGlobPattern', () => {
+    test('returns true for patterns with wildcards', () => {
+      expect(isGlobPattern('form.*')).toEqual(true);
+      expect(isGlobPattern('form.input')).toEqual(false);
+    });
+  });
+
+  describe('matchesGlob', () => {
+    test('matches a single part with *', () => {
+      expect(matchesGlob('form.*', 'form.input')).toEqual(true);
+      expect(matchesGlob('form.*', 'form.input.focused')).toEqual(false);
+      expect(matchesGlob('form.*', 'other.input')).toEqual(false);
+    });
+
+    test('matches any number of parts with **', () => {
+      expect(matchesGlob('form.**', 'form.input.focused')).toEqual(true);
+      expect(matchesGlob('**.focused', 'form.input.focused')).toEqual(true);
+    });
+
+    test('matches within a part', () => {
+      expect(matchesGlob('form.input*', 'form.input2')).toEqual(true);
+    });
+
+    test('escapes other characters', () => {
+      expect(matchesGlob('xstate.after(1000)#*', 'xstate.after(1000)#machine.a')).toEqual(false);
+      expect(matchesGlob('xstate.after(1000)#**', 'xstate.after(1000)#machine.a')).toEqual(true);
+    });
+  });
+});
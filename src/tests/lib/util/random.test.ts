@@ -0,0 +1,55 @@
+import { describe, test, expect } from 'vitest';
+import { randomItem, seededRandom, weightedRandomItem } from '@/lib/util/random';
+
+describe('util', () => {
+  describe('seededRandom', () => {
+    test('returns the same sequence for the same seed', () => {
+      const first = seededRandom(42);
+      const second = seededRandom(42);
+
+      expect([first(), first(), first()]).toEqual([second(), second(), second()]);
+    });
+
+    test('returns different sequences for different seeds', () => {
+      const first = seededRandom(1);
+      const second = seededRandom(2);
+
+      expect(first()).not.toEqual(second());
+    });
+
+    test('returns numbers in the range [0, 1)', () => {
+      const random = seededRandom(42);
+
+      for (let i = 0; i < 100; i++) {
+        const value = random();
+        expect(value).toBeGreaterThanOrEqual(0);
+        expect(value).toBeLessThan(1);
+      }
+    });
+  });
+
+  describe('randomItem', () => {
+    test('returns an item from the array', () => {
+      const items = ['a', 'b', 'c'];
+
+      expect(items).toContain(randomItem(items, seededRandom(42)));
+    });
+
+    test('returns undefined for an empty array', () => {
+      expect(randomItem([], seededRandom(42))).toBeUndefined();
+    });
+  });
+
+  describe('weightedRandomItem', () => {
+    test('never picks items with no weight', () => {
+      const random = seededRandom(42);
+
+      for (let i = 0; i < 100; i++)
+        expect(weightedRandomItem(['a', 'b', 'c'], [1, 0, 1], random)).not.toEqual('b');
+    });
+
+    test('returns undefined if no item has a positive weight', () => {
+      expect(weightedRandomItem(['a', 'b'], [0, 0], seededRandom(42))).toBeUndefined();
+    });
+  });
+});
@@ -0,0 +1,24 @@
+import { describe, test, expect } from 'vitest';
+import { SequenceTrie } from '@/lib/util/trie';
+
+describe('util', () => {
+  describe('SequenceTrie', () => {
+    test('finds prefixes of added sequences', () => {
+      const trie = new SequenceTrie<string>();
+      trie.add(['a', 'b', 'c']);
+
+      expect(trie.hasPrefix([])).toEqual(true);
+      expect(trie.hasPrefix(['a'])).toEqual(true);
+      expect(trie.hasPrefix(['a', 'b', 'c'])).toEqual(true);
+    });
+
+    test('does not find other sequences', () => {
+      const trie = new SequenceTrie<string>();
+      trie.add(['a', 'b', 'c']);
+
+      expect(trie.hasPrefix(['b', 'c'])).toEqual(false);
+      expect(trie.hasPrefix(['a', 'b', 'c', 'd'])).toEqual(false);
+      expect(trie.hasPrefix(['ab'])).toEqual(false);
+    });
+  });
+});
@@ -23,7 +23,7 @@ export default defineConfig({
       }[format])
     },
     rollupOptions: {
-      external: ['xstate'],
+      external: ['xstate', /^xstate\//],
     }
   }
 });
\ No newline at end of file